@@ -127,7 +127,7 @@ echo "When configuring in Dokploy, ensure:"
 echo ""
 echo "1. Service Type: Docker Compose"
 echo "2. Docker Compose File: server/docker-compose.yaml"
-echo "3. Context Path: server"
+echo "3. Context Path: . (repository root)"
 echo "4. Environment Variables:"
 echo "   - SUPABASE_URL=https://xxxxx.supabase.co"
 echo "   - SUPABASE_SERVICE_KEY=your-service-role-key"
@@ -162,7 +162,7 @@ echo "❌ Error: 'Dockerfile not found'"
 echo "   Solution: Check Dockerfile paths in Dokploy"
 echo "   - Dockerfile Path: server/Dockerfile.hocuspocus (for hocuspocus service)"
 echo "   - Dockerfile Path: server/Dockerfile.y-webrtc (for signaling service)"
-echo "   - Context Path: server"
+echo "   - Context Path: . (repository root)"
 echo ""
 
 print_status "INFO" "Testing local build..."
@@ -170,20 +170,20 @@ print_status "INFO" "Testing local build..."
 # Test if the services can build locally
 echo "Testing Docker builds..."
 
-if docker build -f server/Dockerfile.hocuspocus -t test-hocuspocus server/ > /dev/null 2>&1; then
+if docker build -f server/Dockerfile.hocuspocus -t test-hocuspocus . > /dev/null 2>&1; then
     print_status "SUCCESS" "Hocuspocus Dockerfile builds successfully"
     docker rmi test-hocuspocus > /dev/null 2>&1 || true
 else
     print_status "ERROR" "Hocuspocus Dockerfile build failed"
-    echo "Run: docker build -f server/Dockerfile.hocuspocus -t test-hocuspocus server/"
+    echo "Run: docker build -f server/Dockerfile.hocuspocus -t test-hocuspocus ."
 fi
 
-if docker build -f server/Dockerfile.y-webrtc -t test-y-webrtc server/ > /dev/null 2>&1; then
+if docker build -f server/Dockerfile.y-webrtc -t test-y-webrtc . > /dev/null 2>&1; then
     print_status "SUCCESS" "Y-WebRTC Dockerfile builds successfully"
     docker rmi test-y-webrtc > /dev/null 2>&1 || true
 else
     print_status "ERROR" "Y-WebRTC Dockerfile build failed"
-    echo "Run: docker build -f server/Dockerfile.y-webrtc -t test-y-webrtc server/"
+    echo "Run: docker build -f server/Dockerfile.y-webrtc -t test-y-webrtc ."
 fi
 
 echo ""
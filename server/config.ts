@@ -1,6 +1,7 @@
 import dotenv from 'dotenv'
 import { fileURLToPath } from 'url'
 import { dirname, join } from 'path'
+import { RetentionPolicy, parseRetentionPolicies, parseRetentionPolicy } from './lib/retention.js'
 
 // Get current directory in ES modules
 const __filename = fileURLToPath(import.meta.url)
@@ -10,8 +11,59 @@ const __dirname = dirname(__filename)
 // This MUST be imported before any other modules that use env vars
 dotenv.config({ path: join(__dirname, '.env') })
 
+// Storage backend for entities and deltas: 'supabase' (default), 'filesystem' or 'memory'
+const storageAdapter = (process.env.STORAGE_ADAPTER || 'supabase') as 'supabase' | 'filesystem' | 'memory'
+const storageAdapters = ['supabase', 'filesystem', 'memory']
+
+if (!storageAdapters.includes(storageAdapter)) {
+  console.error(`\n❌ Invalid STORAGE_ADAPTER "${storageAdapter}". Use one of: ${storageAdapters.join(', ')}\n`)
+  process.exit(1)
+}
+
+// Compression of Yjs states and updates written by the Supabase adapter: 'gzip' (default), 'brotli' or 'none'
+const storageCompression = (process.env.STORAGE_COMPRESSION || 'gzip') as 'gzip' | 'brotli' | 'none'
+const storageCompressions = ['gzip', 'brotli', 'none']
+
+if (!storageCompressions.includes(storageCompression)) {
+  console.error(`\n❌ Invalid STORAGE_COMPRESSION "${storageCompression}". Use one of: ${storageCompressions.join(', ')}\n`)
+  process.exit(1)
+}
+
+// Delta retention per entity type, e.g. "document=days:30,auditLog=forever" (see lib/retention.ts)
+let retentionPolicies: Record<string, RetentionPolicy>
+let defaultRetentionPolicy: RetentionPolicy
+
+try {
+  retentionPolicies = parseRetentionPolicies(process.env.DELTA_RETENTION || '')
+  // Entity types without a policy keep the compaction behaviour
+  defaultRetentionPolicy = parseRetentionPolicy(process.env.DELTA_RETENTION_DEFAULT || 'compacted')
+} catch (error: any) {
+  console.error(`\n❌ ${error.message}\n`)
+  process.exit(1)
+}
+
+// Access tokens are verified locally with the project JWT secret (HS256) and/or the
+// project JWKS (RS256/ES256), given inline or fetched once from the auth server
+const jwtSecret = process.env.SUPABASE_JWT_SECRET || undefined
+const jwksUrl = process.env.SUPABASE_JWKS_URL
+  || (process.env.SUPABASE_URL ? `${process.env.SUPABASE_URL.replace(/\/$/, '')}/auth/v1/.well-known/jwks.json` : undefined)
+let jwks: { keys?: any[] } | undefined
+
+try {
+  jwks = process.env.SUPABASE_JWKS ? JSON.parse(process.env.SUPABASE_JWKS) : undefined
+} catch {
+  console.error('\n❌ SUPABASE_JWKS is not valid JSON.\n')
+  process.exit(1)
+}
+
+if (!jwtSecret && !jwks && !jwksUrl) {
+  console.error('\n❌ No way to verify access tokens. Set SUPABASE_JWT_SECRET, SUPABASE_JWKS or SUPABASE_URL.\n')
+  process.exit(1)
+}
+
 // Validate required environment variables
-const requiredEnvVars = ['SUPABASE_URL', 'SUPABASE_SERVICE_KEY']
+// Supabase credentials are only needed when Supabase is the storage backend
+const requiredEnvVars = storageAdapter === 'supabase' ? ['SUPABASE_URL', 'SUPABASE_SERVICE_KEY'] : []
 const missingEnvVars = requiredEnvVars.filter(varName => !process.env[varName])
 
 if (missingEnvVars.length > 0) {
@@ -27,8 +79,28 @@ if (missingEnvVars.length > 0) {
 // Export config values
 export const config = {
   supabase: {
-    url: process.env.SUPABASE_URL!,
-    serviceKey: process.env.SUPABASE_SERVICE_KEY!,
+    url: process.env.SUPABASE_URL,
+    serviceKey: process.env.SUPABASE_SERVICE_KEY,
+  },
+  auth: {
+    jwtSecret,
+    jwks,
+    jwksUrl,
+    // Supabase access tokens of signed-in users have the `authenticated` audience
+    audience: process.env.SUPABASE_JWT_AUDIENCE || 'authenticated',
+    issuer: process.env.SUPABASE_JWT_ISSUER || undefined,
+    // Users who may call the operator routes (webhooks, retention, ...), besides the service key
+    adminUserIds: (process.env.ADMIN_USER_IDS || '').split(',').map(id => id.trim()).filter(Boolean),
+  },
+  storage: {
+    adapter: storageAdapter,
+    // Root folder of the filesystem adapter
+    directory: process.env.STORAGE_DIR || join(__dirname, 'data'),
+    envelope: {
+      codec: storageCompression,
+      // Smaller payloads (most single deltas) are stored uncompressed
+      minBytes: parseInt(process.env.STORAGE_COMPRESSION_MIN_BYTES || '256'),
+    },
   },
   hocuspocus: {
     port: parseInt(process.env.HOCUSPOCUS_PORT || '1234'),
@@ -40,6 +112,52 @@ export const config = {
   cors: {
     origin: process.env.CORS_ORIGIN || '*',
   },
+  compaction: {
+    // How often the background job looks for deltas to fold into snapshots
+    intervalMs: parseInt(process.env.COMPACTION_INTERVAL_MS || '300000'),
+    // Only deltas older than this are compacted (the watermark is now - minAge)
+    minAgeMs: parseInt(process.env.COMPACTION_MIN_AGE_MS || '600000'),
+    // Max number of deltas merged per entity in a single pass
+    batchSize: parseInt(process.env.COMPACTION_BATCH_SIZE || '500'),
+    // 'prune' deletes merged deltas, 'archive' moves them to yjs_entity_deltas_archive
+    mode: (process.env.COMPACTION_MODE === 'archive' ? 'archive' : 'prune') as 'prune' | 'archive',
+  },
+  retention: {
+    policies: retentionPolicies,
+    defaultPolicy: defaultRetentionPolicy,
+    // Scheduled passes only log what they would compact
+    dryRun: process.env.DELTA_RETENTION_DRY_RUN === 'true',
+  },
+  projections: {
+    // Materialize drawables into yjs_entity_drawables on every store (for SQL reporting)
+    drawables: process.env.DRAWABLE_PROJECTION === 'true',
+  },
+  deltaBuffer: {
+    // Updates of an entity within this window are merged into a single delta (0 writes every update)
+    windowMs: parseInt(process.env.DELTA_BUFFER_WINDOW_MS || '1000'),
+    // An entity is flushed early once it has this many updates or bytes buffered
+    maxUpdates: parseInt(process.env.DELTA_BUFFER_MAX_UPDATES || '500'),
+    maxBytes: parseInt(process.env.DELTA_BUFFER_MAX_BYTES || '262144'),
+    // Above this many buffered bytes across all entities updates are flushed without waiting
+    // for the window
+    earlyFlushBytes: parseInt(process.env.DELTA_BUFFER_EARLY_FLUSH_BYTES || '16777216'),
+    // Above this many buffered bytes incoming websocket messages are held until writes catch up
+    maxBufferedBytes: parseInt(process.env.DELTA_BUFFER_MAX_BUFFERED_BYTES || '67108864'),
+    // Delta writes slower than this are logged and counted in the metrics
+    slowWriteMs: parseInt(process.env.DELTA_BUFFER_SLOW_WRITE_MS || '1000'),
+  },
+  webhooks: {
+    // Changes of an entity are sent once no new change arrived for this long...
+    debounceMs: parseInt(process.env.WEBHOOK_DEBOUNCE_MS || '2000'),
+    // ...or at the latest after this long, so continuous editing still sends events
+    maxWaitMs: parseInt(process.env.WEBHOOK_MAX_WAIT_MS || '10000'),
+    // Failed deliveries are retried with exponential backoff starting at retryDelayMs
+    maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5'),
+    retryDelayMs: parseInt(process.env.WEBHOOK_RETRY_DELAY_MS || '1000'),
+    timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '5000'),
+    // Loopback and private network URLs are refused unless this is set (local testing)
+    allowPrivateUrls: process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true',
+  },
   nodeEnv: process.env.NODE_ENV || 'development',
 }
 
@@ -0,0 +1,49 @@
+/**
+ * Errors thrown by server services. The HTTP API maps them to status codes.
+ */
+
+export class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'NotFoundError'
+  }
+}
+
+/** The entity is in the trash or was purged */
+export class EntityDeletedError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'EntityDeletedError'
+  }
+}
+
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ValidationError'
+  }
+}
+
+/** The resource already exists, e.g. an entity or drawable id that is taken */
+export class ConflictError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ConflictError'
+  }
+}
+
+/** The request has no valid access token */
+export class UnauthorizedError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UnauthorizedError'
+  }
+}
+
+/** The user is authenticated but their role doesn't allow the operation */
+export class ForbiddenError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ForbiddenError'
+  }
+}
@@ -0,0 +1,68 @@
+import { Extension, Hocuspocus, afterUnloadDocumentPayload, onListenPayload } from '@hocuspocus/server'
+import { config } from '../config.js'
+import { enforceEntityRetention, runRetentionPass } from '../services/retention.js'
+import { getStorage } from '../storage/index.js'
+
+/**
+ * Delta Compactor Extension
+ *
+ * Every change tracked by UpdateTracker appends a row to yjs_entity_deltas.
+ * This extension periodically folds the deltas the retention policy of their
+ * entity type no longer keeps (see services/retention.ts) into
+ * yjs_entities.yjs_state, and does the same for a single entity as soon as its
+ * document is unloaded from memory.
+ *
+ * Documents that are currently loaded are skipped by the periodic job, their
+ * state is still being written by the Database extension.
+ */
+
+let timer: NodeJS.Timeout | null = null
+let running = false
+
+async function runCompactionPass(instance: Hocuspocus) {
+  if (running) return
+  running = true
+
+  try {
+    const report = await runRetentionPass(instance, { dryRun: config.retention.dryRun })
+    if (report.dryRun && report.expired > 0) {
+      console.log(`[DeltaCompactor] Dry run: ${report.expired} deltas of ${report.entities.length} entities would be compacted`)
+    }
+  } catch (error) {
+    console.error('[DeltaCompactor] Compaction pass failed:', error)
+  } finally {
+    running = false
+  }
+}
+
+export const DeltaCompactor: Extension = {
+  async onListen({ instance }: onListenPayload) {
+    if (config.compaction.intervalMs <= 0) return
+
+    timer = setInterval(() => runCompactionPass(instance), config.compaction.intervalMs)
+    console.log(`[DeltaCompactor] Running every ${config.compaction.intervalMs}ms${config.retention.dryRun ? ' (retention dry run)' : ''}`)
+  },
+
+  /**
+   * The document has just been stored and removed from memory,
+   * so its expired deltas can be folded into the snapshot right away.
+   */
+  async afterUnloadDocument({ instance, documentName: entityId }: afterUnloadDocumentPayload) {
+    try {
+      if (instance.documents.has(entityId)) return
+
+      const entity = await getStorage().loadEntityHeader(entityId)
+      if (!entity) return
+      await enforceEntityRetention(entityId, entity.type, { dryRun: config.retention.dryRun })
+    } catch (error) {
+      console.error(`[DeltaCompactor] Error compacting ${entityId} after unload:`, error)
+    }
+  },
+
+  async onDestroy() {
+    if (timer) {
+      clearInterval(timer)
+      timer = null
+    }
+  },
+}
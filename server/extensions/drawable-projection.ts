@@ -0,0 +1,27 @@
+import { Extension, afterUnloadDocumentPayload, onStoreDocumentPayload } from '@hocuspocus/server'
+import { forgetDrawableProjection, syncDrawableProjection } from '../services/projections.js'
+
+/**
+ * Drawable Projection Extension
+ *
+ * Keeps yjs_entity_drawables in line with each document whenever it is stored,
+ * so canvas content can be queried in SQL. Only changed rows are written.
+ * Enabled with DRAWABLE_PROJECTION=true; a failed projection is logged and
+ * never blocks persistence.
+ */
+export const DrawableProjection: Extension = {
+  async onStoreDocument({ documentName: entityId, document, context }: onStoreDocumentPayload) {
+    const { entityType } = context
+    if (!entityType) return
+
+    try {
+      await syncDrawableProjection(entityId, entityType, document)
+    } catch (error) {
+      console.error(`[DrawableProjection] Error projecting ${entityId}:`, error)
+    }
+  },
+
+  async afterUnloadDocument({ documentName: entityId }: afterUnloadDocumentPayload) {
+    forgetDrawableProjection(entityId)
+  },
+}
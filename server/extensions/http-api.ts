@@ -0,0 +1,46 @@
+import { Extension, onRequestPayload } from '@hocuspocus/server'
+import { config } from '../config.js'
+import { registerBlameRoutes } from '../http/blame.js'
+import { registerBranchRoutes } from '../http/branches.js'
+import { registerDiffRoutes } from '../http/diffs.js'
+import { registerEntityRoutes } from '../http/entities.js'
+import { registerHistoryRoutes } from '../http/history.js'
+import { registerMemberRoutes } from '../http/members.js'
+import { registerMetricsRoutes } from '../http/metrics.js'
+import { registerProjectionRoutes } from '../http/projections.js'
+import { registerRestRoutes } from '../http/rest.js'
+import { registerRetentionRoutes } from '../http/retention.js'
+import { HttpRouter } from '../http/router.js'
+import { registerVersionRoutes } from '../http/versions.js'
+import { registerWebhookRoutes } from '../http/webhooks.js'
+
+const router = new HttpRouter()
+registerRestRoutes(router)
+registerEntityRoutes(router)
+registerMemberRoutes(router)
+registerBranchRoutes(router)
+registerDiffRoutes(router)
+registerBlameRoutes(router)
+registerVersionRoutes(router)
+registerHistoryRoutes(router)
+registerWebhookRoutes(router)
+registerRetentionRoutes(router)
+registerMetricsRoutes(router)
+if (config.projections.drawables) registerProjectionRoutes(router)
+
+/**
+ * HTTP API Extension
+ *
+ * Serves the REST endpoints in http/ on the same port as the WebSocket server.
+ * Requests that don't match a route fall through to the default Hocuspocus response.
+ */
+export const HttpApi: Extension = {
+  async onRequest(data: onRequestPayload) {
+    const handled = await router.handle(data)
+
+    if (handled) {
+      // Rejecting with an empty error stops the remaining hooks and the default response
+      throw null
+    }
+  },
+}
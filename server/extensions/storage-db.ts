@@ -0,0 +1,72 @@
+import { Database } from '@hocuspocus/extension-database'
+import {
+  buildEntityDoc,
+  projectEntityMetadata,
+  seedProjectedFields,
+  validateEntityDoc,
+} from 'collaborative-editor-shared'
+import * as Y from 'yjs'
+import { renderEntityThumbnail } from '../lib/thumbnail.js'
+import { assertNotDeleted } from '../services/documents.js'
+import { getStorage } from '../storage/index.js'
+
+/**
+ * Persists documents through the storage adapter selected in config.ts
+ * (Supabase, filesystem or in-memory).
+ *
+ * Projected fields declared in the entity config (e.g. `metadata.title` from the
+ * `name` Y.Text) are written to the metadata on every store, so lists show the
+ * current value without loading the document. The same goes for the SVG thumbnail
+ * of entities with drawables.
+ *
+ * Entities in the trash are neither loaded nor stored.
+ */
+export const StorageDatabase = new Database({
+  fetch: async ({ documentName: entityId, context }) => {
+    try {
+      const entity = await getStorage().loadEntity(entityId)
+      if (!entity) return null
+      assertNotDeleted(entity)
+
+      // Entities created with metadata only (e.g. a title from the home page) get it as content
+      const doc = buildEntityDoc(context.entityType ?? entity.type, entity.state)
+      const seeded = seedProjectedFields(context.entityType ?? entity.type, doc, entity.metadata)
+      const state = seeded ? Y.encodeStateAsUpdate(doc) : entity.state
+      doc.destroy()
+      return state
+    } catch (error) {
+      // Returning null would load an empty document and overwrite the stored one
+      console.error('[StorageDB] Fetch error:', error)
+      throw error
+    }
+  },
+  
+  store: async ({ documentName: entityId, state, document, context }) => {
+    try {
+      const { entityType } = context
+      if (!entityType) throw new Error('entityType is missing from the context.')
+
+      // The final store of a document that was just moved to the trash
+      const header = await getStorage().loadEntityHeader(entityId)
+      if (header?.deletedAt) {
+        console.warn(`[StorageDB] Skipping store of ${entityId}, it is in the trash`)
+        return
+      }
+
+      // Same entity schemas as the web client (shared package)
+      const validation = validateEntityDoc(entityType, document)
+      if (!validation.success) {
+        console.error('[StorageDB] Validation failed:', validation.error)
+        return
+      }
+
+      await getStorage().storeState(entityId, entityType, state, {
+        metadata: projectEntityMetadata(entityType, document),
+        thumbnail: renderEntityThumbnail(document) ?? undefined,
+      })
+    } catch (error) {
+      console.error('[StorageDB] Store error:', error)
+      throw error
+    }
+  }
+})
@@ -1,12 +1,13 @@
-import { Extension, onChangePayload } from '@hocuspocus/server'
-import { storeUpdate } from './supabase-db.js'
+import { Extension, afterUnloadDocumentPayload, onChangePayload } from '@hocuspocus/server'
+import { deltaBuffer } from '../lib/delta-buffer.js'
+import { getDeltaOrigin } from '../lib/origin.js'
 
 /**
  * Update Tracker Extension
- * 
+ *
  * This extension captures individual Yjs updates using the onChange hook.
  * According to Hocuspocus documentation, onChange provides the update data.
- * 
+ *
  * From the docs:
  * const data = {
  *   update: Uint8Array,
@@ -16,14 +17,25 @@ import { storeUpdate } from './supabase-db.js'
  *   context: any,
  *   ...
  * }
+ *
+ * Updates go through the delta write buffer, which merges the updates of an
+ * entity over a short window before they reach yjs_entity_deltas.
  */
 export const UpdateTracker: Extension = {
+  /**
+   * Backpressure: Hocuspocus applies a message only once this resolves, so while
+   * the delta log is far behind, websocket messages wait for the buffer to drain
+   */
+  async beforeHandleMessage() {
+    await deltaBuffer.waitForCapacity()
+  },
+
   /**
    * Called when a document changes
    * The update parameter contains the incremental Yjs update
    */
   async onChange(data: onChangePayload) {
-    const { documentName: entityId, update, socketId, context } = data
+    const { documentName: entityId, update, transactionOrigin, context } = data
     const { entityType } = context
 
     if (!entityType) {
@@ -32,21 +44,25 @@ export const UpdateTracker: Extension = {
     }
 
     if (update && update instanceof Uint8Array) {
-      try {
-        const clientId = socketId
-          ? Array.from(socketId).reduce((acc, char) => acc + char.charCodeAt(0), 0)
-          : 0
-        
-        await storeUpdate(
-          entityId,
-          entityType as string,
-          update,
-          clientId
-        )
-      } catch (error) {
-        console.error('[UpdateTracker] Error storing update:', error)
-      }
+      // Yjs client ids are read from the update itself, the user comes from onAuthenticate
+      deltaBuffer.add({
+        entityId,
+        entityType: entityType as string,
+        update,
+        userId: context.user?.id ?? null,
+        origin: getDeltaOrigin(transactionOrigin, update),
+      })
     }
-  }
-}
+  },
 
+  /**
+   * Runs before the DeltaCompactor, so the last updates are in the log when it compacts
+   */
+  async afterUnloadDocument({ documentName: entityId }: afterUnloadDocumentPayload) {
+    await deltaBuffer.flush(entityId)
+  },
+
+  async onDestroy() {
+    await deltaBuffer.flushAll()
+  },
+}
@@ -0,0 +1,114 @@
+import { Extension, afterLoadDocumentPayload, afterUnloadDocumentPayload, onChangePayload } from '@hocuspocus/server'
+import {
+  buildEntityDoc,
+  describeValidationError,
+  encodeServerMessage,
+  validateEntityDoc,
+} from 'collaborative-editor-shared'
+import * as Y from 'yjs'
+import { markRejected, serverOrigin } from '../lib/origin.js'
+
+/**
+ * Validation Gate Extension
+ *
+ * Hocuspocus applies and broadcasts an update before onChange runs, so an
+ * invalid update can't be stopped, only undone. Every loaded document gets a
+ * shadow copy holding the last accepted state. Incoming updates are applied to
+ * the shadow and validated against the entity schema from the shared package.
+ *
+ * When an update turns a valid document invalid it is undone on the shadow, and
+ * the resulting inverse update is applied to the live document, so every client
+ * converges back to the last valid state. The client that sent the update is
+ * told why with a stateless `update-rejected` message. Both the update and its
+ * revert are stored with the `rejected` origin, so history and blame skip them.
+ *
+ * Must run before the other onChange hooks so the shadow sees updates in order.
+ */
+
+interface Gate {
+  entityType: string
+  shadow: Y.Doc
+  undoManager: Y.UndoManager
+  valid: boolean
+}
+
+const SHADOW_ORIGIN = Symbol('validation-gate')
+
+const gates = new Map<string, Gate>()
+
+function createGate(entityType: string, document: Y.Doc): Gate {
+  const shadow = buildEntityDoc(entityType, Y.encodeStateAsUpdate(document))
+  const undoManager = new Y.UndoManager(Array.from(shadow.share.values()), {
+    trackedOrigins: new Set([SHADOW_ORIGIN]),
+    // Every update is its own undo step
+    captureTimeout: 0,
+  })
+
+  return { entityType, shadow, undoManager, valid: validateEntityDoc(entityType, shadow).success }
+}
+
+function destroyGate(entityId: string) {
+  const gate = gates.get(entityId)
+  if (!gate) return
+
+  gate.undoManager.destroy()
+  gate.shadow.destroy()
+  gates.delete(entityId)
+}
+
+export const ValidationGate: Extension = {
+  async afterLoadDocument({ documentName: entityId, document, context }: afterLoadDocumentPayload) {
+    const { entityType } = context
+    if (!entityType) return
+
+    destroyGate(entityId)
+    gates.set(entityId, createGate(entityType, document))
+  },
+
+  async onChange({ documentName: entityId, document, update, socketId, context }: onChangePayload) {
+    let gate = gates.get(entityId)
+    if (!gate) {
+      if (!context.entityType) return
+      // Loaded without an entity type, start gating from the current state
+      gates.set(entityId, createGate(context.entityType, document))
+      return
+    }
+
+    // Reverts are computed from the shadow, so applying them there is a no-op
+    Y.applyUpdate(gate.shadow, update, SHADOW_ORIGIN)
+    const validation = validateEntityDoc(gate.entityType, gate.shadow)
+
+    if (validation.success || !gate.valid) {
+      // An already invalid document (e.g. stored before validation existed) can't be blamed on this update
+      gate.valid = validation.success
+      gate.undoManager.clear()
+      return
+    }
+
+    const issues = describeValidationError(validation.error)
+    const stateVector = Y.encodeStateVector(gate.shadow)
+    const undone = gate.undoManager.undo()
+    gate.undoManager.clear()
+
+    if (!undone) {
+      console.error(`[ValidationGate] Could not revert invalid update of ${entityId}:`, issues)
+      gate.valid = false
+      return
+    }
+
+    console.warn(`[ValidationGate] Reverted invalid update of ${entityId} from ${socketId || 'server'}:`, issues)
+
+    // The update is already in the document, so it is stored too (later updates may
+    // build on its items), but flagged for the hooks after this one
+    markRejected(update)
+    const inverse = Y.encodeStateAsUpdate(gate.shadow, stateVector)
+    Y.applyUpdate(document, inverse, serverOrigin({ entityType: gate.entityType }, 'rejected'))
+
+    const offender = document.getConnections().find(connection => connection.socketId === socketId)
+    offender?.sendStateless(encodeServerMessage({ type: 'update-rejected', entityId, issues }))
+  },
+
+  async afterUnloadDocument({ documentName: entityId }: afterUnloadDocumentPayload) {
+    destroyGate(entityId)
+  },
+}
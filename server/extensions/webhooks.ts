@@ -0,0 +1,117 @@
+import { Extension, afterLoadDocumentPayload, afterUnloadDocumentPayload, onChangePayload } from '@hocuspocus/server'
+import { entityConfigs, isEntityType } from 'collaborative-editor-shared'
+import * as Y from 'yjs'
+import { z } from 'zod'
+import { getDeltaOrigin } from '../lib/origin.js'
+import { webhooks } from '../lib/webhooks.js'
+
+/**
+ * Webhooks Extension
+ *
+ * Feeds document changes to the webhook dispatcher, which debounces them and
+ * notifies the endpoints registered for the entity type (see lib/webhooks.ts).
+ *
+ * onChange only receives the encoded update, so the ids of the drawables it
+ * touched are collected by an observer on the drawables array. The observer and
+ * onChange see the same transaction origin (the connection, or a ServerOrigin),
+ * which keys the ids until onChange picks them up.
+ */
+
+const DRAWABLES_FIELD = 'drawables'
+
+interface DrawableTracker {
+  drawables: Y.Array<Y.Map<any>>
+  observer: (events: Y.YEvent<any>[], transaction: Y.Transaction) => void
+  idsByOrigin: Map<unknown, Set<string>>
+}
+
+const trackers = new Map<string, DrawableTracker>()
+
+function hasDrawables(entityType: string) {
+  return isEntityType(entityType) && DRAWABLES_FIELD in (entityConfigs[entityType].schema as z.ZodObject<any>).shape
+}
+
+// Deleted maps no longer expose their entries through get(), read the stored item instead
+function drawableIdOf(map: Y.Map<any>): string | undefined {
+  const id = map.get('id') ?? map._map.get('id')?.content.getContent()[0]
+  return typeof id === 'string' ? id : undefined
+}
+
+function trackDrawables(entityId: string, document: Y.Doc) {
+  const drawables = document.getArray<Y.Map<any>>(DRAWABLES_FIELD)
+  const idsByOrigin = new Map<unknown, Set<string>>()
+
+  const observer = (events: Y.YEvent<any>[], transaction: Y.Transaction) => {
+    const ids = idsByOrigin.get(transaction.origin) ?? new Set<string>()
+
+    for (const event of events) {
+      if (event.target === drawables) {
+        for (const item of [...event.changes.added, ...event.changes.deleted]) {
+          for (const value of item.content.getContent()) {
+            const id = value instanceof Y.Map ? drawableIdOf(value) : undefined
+            if (id) ids.add(id)
+          }
+        }
+      } else if (event.target instanceof Y.Map && event.target.parent === drawables) {
+        const id = drawableIdOf(event.target)
+        if (id) ids.add(id)
+      }
+    }
+
+    if (ids.size > 0) idsByOrigin.set(transaction.origin, ids)
+  }
+
+  drawables.observeDeep(observer)
+  trackers.set(entityId, { drawables, observer, idsByOrigin })
+}
+
+function untrackDrawables(entityId: string) {
+  const tracker = trackers.get(entityId)
+  if (!tracker) return
+
+  tracker.drawables.unobserveDeep(tracker.observer)
+  trackers.delete(entityId)
+}
+
+export const Webhooks: Extension = {
+  async afterLoadDocument({ documentName: entityId, document, context }: afterLoadDocumentPayload) {
+    const { entityType } = context
+    if (!entityType || !hasDrawables(entityType)) return
+
+    untrackDrawables(entityId)
+    trackDrawables(entityId, document)
+  },
+
+  async onChange({ documentName: entityId, update, transactionOrigin, context }: onChangePayload) {
+    const { entityType } = context
+    if (!entityType) return
+
+    const idsByOrigin = trackers.get(entityId)?.idsByOrigin
+    const drawableIds = idsByOrigin?.get(transactionOrigin) ?? []
+    idsByOrigin?.delete(transactionOrigin)
+
+    // A rejected update and its revert cancel out, there is no change to report
+    const origin = getDeltaOrigin(transactionOrigin, update)
+    if (origin === 'rejected') return
+
+    webhooks.entityChanged({
+      entityId,
+      entityType,
+      userId: context.user?.id ?? null,
+      origin,
+      drawableIds,
+    })
+  },
+
+  /**
+   * Pending changes stay with the dispatcher, so edits through short-lived
+   * direct connections (HTTP API) are still debounced together
+   */
+  async afterUnloadDocument({ documentName: entityId }: afterUnloadDocumentPayload) {
+    untrackDrawables(entityId)
+  },
+
+  async onDestroy() {
+    await webhooks.flushAll()
+  },
+}
@@ -1,8 +1,19 @@
 // Load config FIRST - this initializes environment variables
 import { Server } from '@hocuspocus/server';
+import { EntityDeletedCloseEvent, encodeServerMessage } from 'collaborative-editor-shared';
 import { config } from './config.js';
-import { SupabaseDatabase } from './extensions/supabase-db.js';
+import { ForbiddenError } from './errors.js';
+import { StorageDatabase } from './extensions/storage-db.js';
+import { ValidationGate } from './extensions/validation-gate.js';
 import { UpdateTracker } from './extensions/update-tracker.js';
+import { Webhooks } from './extensions/webhooks.js';
+import { DeltaCompactor } from './extensions/delta-compactor.js';
+import { HttpApi } from './extensions/http-api.js';
+import { DrawableProjection } from './extensions/drawable-projection.js';
+import { authenticateToken } from './services/auth.js';
+import { assertNotDeleted } from './services/documents.js';
+import { canEdit, getEntityRole } from './services/members.js';
+import { getStorage } from './storage/index.js';
 
 const PORT = config.hocuspocus.port;
 const CORS_ORIGIN = config.cors.origin;
@@ -13,58 +24,69 @@ const CORS_ORIGIN = config.cors.origin;
  * This server provides real-time collaboration capabilities using Yjs CRDT.
  * It handles:
  * - WebSocket connections for real-time sync
- * - Document persistence via Supabase
+ * - Authentication of connections with Supabase access tokens
+ * - Per-entity access control (owner, editor and viewer members)
+ * - Document persistence via a pluggable storage adapter (Supabase, filesystem, memory)
+ * - Validation of incoming updates against the shared entity schemas
  * - Document lifecycle management
- * - Incremental update tracking
+ * - Incremental update tracking (merged per entity before writing)
+ * - Compaction of tracked updates into the stored state
+ * - Optional SQL projection of drawables (yjs_entity_drawables)
+ * - Soft delete: documents in the trash are refused until restored
+ * - HTTP API (trash, versions, history, metrics) on the same port
  */
 const server = Server.configure({
   port: PORT,
 
-  // Database extension for Supabase persistence
+  // Database extension persisting through the configured storage adapter
   extensions: [
-    SupabaseDatabase,
+    StorageDatabase,
+    ...(config.projections.drawables ? [DrawableProjection] : []), // Mirror drawables into SQL rows after each store
+    ValidationGate, // Revert updates that break the entity schema (before other onChange hooks)
     UpdateTracker, // Track individual updates for audit trail
+    Webhooks, // Notify registered endpoints of entity changes (debounced)
+    DeltaCompactor, // Fold old updates back into yjs_entities.yjs_state
+    HttpApi, // REST endpoints served next to the WebSocket
   ],
 
   /**
    * Authentication hook
-   * For MVP: Explicitly allow all connections without authentication
-   * In Hocuspocus v2.15+, the provider expects this hook to exist even if auth is disabled
-   * This prevents the "authentication token required" warning on the client
+   * The provider sends the Supabase access token of the signed-in user, verified
+   * locally against the project JWT secret / JWKS. Connections without a valid
+   * token, or from users who are not members of the entity, are rejected; viewers
+   * get a read-only connection. The verified user and their role are available as
+   * `context.user` and `context.role`.
    */
-  async onAuthenticate() {
-    // Allow all connections - no authentication required for MVP
-    // Simply return without checking any tokens
-    return {
-      user: {
-        id: 'anonymous-' + Math.random().toString(36).substr(2, 9),
-        name: 'Anonymous User',
-      },
-    };
+  async onAuthenticate({ token, documentName, connection }) {
+    try {
+      const user = await authenticateToken(token);
+      const role = await getEntityRole(documentName, user);
+      if (!role) {
+        throw new ForbiddenError(`${user.email || user.id} is not a member of ${documentName}`);
+      }
+
+      connection.readOnly = !canEdit(role);
+      return {
+        user: {
+          ...user,
+          name: user.email || user.id,
+        },
+        role,
+      };
+    } catch (error) {
+      console.warn(`[Hocuspocus] Authentication failed for ${documentName}: ${(error as Error).message}`);
+      throw error;
+    }
   },
 
-  // Production authentication example (uncomment when needed):
-  // async onAuthenticate({ requestHeaders, requestParameters }) {
-  //   const token = requestHeaders.authorization?.split(' ')[1] || requestParameters.token
-  //
-  //   if (!token) {
-  //     throw new Error('No token provided')
-  //   }
-  //
-  //   // Verify token with Supabase Auth
-  //   const { data: { user }, error } = await supabase.auth.getUser(token)
-  //
-  //   if (error || !user) {
-  //     throw new Error('Invalid token')
-  //   }
-  //
-  //   return {
-  //     user: {
-  //       id: user.id,
-  //       name: user.email || 'Unknown User'
-  //     }
-  //   }
-  // },
+  /**
+   * Tells the client its role, e.g. so viewers disable editing
+   */
+  async connected({ documentName, connectionInstance, context }) {
+    connectionInstance.sendStateless(
+      encodeServerMessage({ type: 'access', entityId: documentName, role: context.role })
+    );
+  },
 
   /**
    * Called when a document is loaded into memory
@@ -129,6 +151,18 @@ const server = Server.configure({
       );
       throw new Error('entityType is required');
     }
+
+    // Trashed documents can't be opened until they are restored
+    const entity = await getStorage().loadEntityHeader(documentName);
+    if (entity) {
+      try {
+        assertNotDeleted(entity);
+      } catch (error) {
+        console.warn(`[Hocuspocus] Connection rejected: ${(error as Error).message}`);
+        // The close code tells the client to drop its local copy
+        throw EntityDeletedCloseEvent;
+      }
+    }
   },
 
   /**
@@ -0,0 +1,13 @@
+import { blameDrawables } from '../services/blame.js'
+import { assertEntityRole } from '../services/members.js'
+import { HttpRouter } from './router.js'
+
+/**
+ * GET /entities/:id/blame?drawableId=   Who created each drawable and last changed each of its properties
+ */
+export function registerBlameRoutes(router: HttpRouter) {
+  router.get('/entities/:id/blame', async ({ params, query, user }) => {
+    await assertEntityRole(params.id, user, 'viewer')
+    return blameDrawables(params.id, query.get('drawableId') ?? undefined)
+  })
+}
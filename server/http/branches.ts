@@ -0,0 +1,34 @@
+import { AuthUser } from '../services/auth.js'
+import { createBranch, diffBranch, mergeBranch } from '../services/branches.js'
+import { assertEntityRole, requireUser } from '../services/members.js'
+import { getStorage } from '../storage/index.js'
+import { HttpRouter } from './router.js'
+
+// Diffing reads and merging writes the parent as well as the branch
+async function assertBranchRole(branchId: string, user: AuthUser | null, role: 'viewer' | 'editor') {
+  await assertEntityRole(branchId, user, role)
+  const parentId = (await getStorage().loadEntityHeader(branchId))?.metadata.branch_of
+  if (typeof parentId === 'string') await assertEntityRole(parentId, user, role)
+}
+
+/**
+ * POST /entities/:id/branches        Create a draft branch of an entity { name }, with the members of the entity
+ * GET  /entities/:id/branch/diff     What merging the branch :id would change in its parent
+ * POST /entities/:id/branch/merge    Merge the branch :id into its parent
+ */
+export function registerBranchRoutes(router: HttpRouter) {
+  router.post('/entities/:id/branches', async ({ instance, params, body, user }) => {
+    await assertEntityRole(params.id, user, 'editor')
+    return createBranch(instance, params.id, body?.name, requireUser(user))
+  })
+
+  router.get('/entities/:id/branch/diff', async ({ instance, params, user }) => {
+    await assertBranchRole(params.id, user, 'viewer')
+    return diffBranch(instance, params.id)
+  })
+
+  router.post('/entities/:id/branch/merge', async ({ instance, params, user }) => {
+    await assertBranchRole(params.id, user, 'editor')
+    return mergeBranch(instance, params.id, user)
+  })
+}
@@ -0,0 +1,23 @@
+import { diffSnapshots } from '../services/diffs.js'
+import { assertEntityRole } from '../services/members.js'
+import { HttpError, HttpRouter } from './router.js'
+
+/**
+ * GET /entities/:id/diff?from=<ref>&to=<ref>   Content at both points and the changes between them
+ *
+ * A ref is `current`, `version:<id>`, `at:<ISO time>` or `branch:<id>`; `to` defaults to `current`.
+ */
+export function registerDiffRoutes(router: HttpRouter) {
+  router.get('/entities/:id/diff', async ({ instance, params, query, user }) => {
+    const from = query.get('from')
+    if (!from) throw new HttpError(400, 'Query parameter "from" is required.')
+    const to = query.get('to') || 'current'
+
+    await assertEntityRole(params.id, user, 'viewer')
+    // Branches are entities of their own
+    for (const ref of [from, to]) {
+      if (ref.startsWith('branch:')) await assertEntityRole(ref.slice('branch:'.length), user, 'viewer')
+    }
+    return diffSnapshots(instance, params.id, from, to)
+  })
+}
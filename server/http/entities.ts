@@ -0,0 +1,36 @@
+import { forkEntity } from '../services/forks.js'
+import { purgeEntity, restoreEntity, trashEntity } from '../services/trash.js'
+import { assertEntityRole, requireUser } from '../services/members.js'
+import { HttpRouter } from './router.js'
+
+/**
+ * POST   /entities/:id/trash           Move an entity to the trash (owners)
+ * POST   /entities/:id/trash/restore   Restore an entity from the trash (owners)
+ * DELETE /entities/:id                 Permanently delete an entity in the trash (owners)
+ * POST   /entities/:id/fork            Copy an entity into a new one owned by the caller { title?, newIds? }
+ */
+export function registerEntityRoutes(router: HttpRouter) {
+  router.post('/entities/:id/trash', async ({ instance, params, user }) => {
+    await assertEntityRole(params.id, user, 'owner')
+    return trashEntity(instance, params.id, user)
+  })
+
+  router.post('/entities/:id/trash/restore', async ({ params, user }) => {
+    await assertEntityRole(params.id, user, 'owner')
+    return restoreEntity(params.id)
+  })
+
+  router.delete('/entities/:id', async ({ instance, params, user }) => {
+    await assertEntityRole(params.id, user, 'owner')
+    return purgeEntity(instance, params.id, user)
+  })
+
+  router.post('/entities/:id/fork', async ({ instance, params, body, user }) => {
+    await assertEntityRole(params.id, user, 'viewer')
+    return forkEntity(instance, params.id, {
+      title: body?.title,
+      newIds: body?.newIds === true,
+      ownerId: body?.ownerId,
+    }, requireUser(user))
+  })
+}
@@ -0,0 +1,75 @@
+import { docToJSON } from '../lib/ydoc.js'
+import { listEntityDeltas, reconstructEntityAt, restoreEntityTo } from '../services/history.js'
+import { assertEntityRole } from '../services/members.js'
+import { HttpError, HttpRouter } from './router.js'
+
+function toBase64(data?: Uint8Array | null) {
+  return data ? Buffer.from(data).toString('base64') : null
+}
+
+function parseOptionalInt(value: string | null, name: string) {
+  if (value === null) return undefined
+  const parsed = parseInt(value)
+  if (Number.isNaN(parsed)) throw new HttpError(400, `Query parameter "${name}" must be a number.`)
+  return parsed
+}
+
+/**
+ * GET  /entities/:id/history?at=<ISO timestamp>       Entity content (e.g. drawables) as it was at that time
+ * GET  /entities/:id/history/deltas?afterId=&limit=   Ordered delta log page (binary data base64 encoded)
+ * POST /entities/:id/history/restore                  Restore { deltaId } or { at } as a forward update
+ */
+export function registerHistoryRoutes(router: HttpRouter) {
+  router.get('/entities/:id/history', async ({ params, query, user }) => {
+    await assertEntityRole(params.id, user, 'viewer')
+    const at = query.get('at')
+    if (!at) throw new HttpError(400, 'Query parameter "at" is required.')
+
+    const { entity, doc, deltasApplied } = await reconstructEntityAt(params.id, new Date(at))
+
+    return {
+      entityId: entity.id,
+      type: entity.type,
+      at: new Date(at).toISOString(),
+      deltasApplied,
+      content: docToJSON(doc),
+    }
+  })
+
+  router.get('/entities/:id/history/deltas', async ({ params, query, user }) => {
+    await assertEntityRole(params.id, user, 'viewer')
+    const { entity, baseState, deltas, hasMore } = await listEntityDeltas(params.id, {
+      afterId: parseOptionalInt(query.get('afterId'), 'afterId'),
+      limit: parseOptionalInt(query.get('limit'), 'limit'),
+    })
+
+    return {
+      entityId: entity.id,
+      type: entity.type,
+      compactedUntil: entity.compactedUntil,
+      compactedDeltaId: entity.compactedDeltaId,
+      ...(baseState !== undefined && { baseState: toBase64(baseState) }),
+      deltas: deltas.map(delta => ({
+        id: delta.id,
+        seq: delta.seq,
+        userId: delta.userId,
+        clientIds: delta.clientIds,
+        origin: delta.origin,
+        createdAt: delta.createdAt,
+        update: toBase64(delta.update),
+      })),
+      hasMore,
+    }
+  })
+
+  router.post('/entities/:id/history/restore', async ({ instance, params, body, user }) => {
+    await assertEntityRole(params.id, user, 'editor')
+    const deltaId = body?.deltaId
+    const at = body?.at
+
+    if (deltaId === undefined && !at) throw new HttpError(400, 'Either "deltaId" or "at" is required.')
+    if (deltaId !== undefined && !Number.isInteger(deltaId)) throw new HttpError(400, '"deltaId" must be an integer.')
+
+    return restoreEntityTo(instance, params.id, deltaId !== undefined ? { upToDeltaId: deltaId } : { at: new Date(at) }, user)
+  })
+}
@@ -0,0 +1,28 @@
+import { assertEntityRole, listEntityMembers, removeEntityMember, requireUser, setEntityMember } from '../services/members.js'
+import { HttpRouter } from './router.js'
+
+/**
+ * GET    /entities/:id/members             Members of an entity and the role of the caller
+ * POST   /entities/:id/members             Add a member or change their role { email | userId, role } (owners)
+ * DELETE /entities/:id/members/:memberId   Remove a member (owners)
+ */
+export function registerMemberRoutes(router: HttpRouter) {
+  router.get('/entities/:id/members', async ({ params, user }) => {
+    await assertEntityRole(params.id, user, 'viewer')
+    return listEntityMembers(params.id, requireUser(user))
+  })
+
+  router.post('/entities/:id/members', async ({ instance, params, body, user }) => {
+    await assertEntityRole(params.id, user, 'owner')
+    return setEntityMember(instance, params.id, {
+      userId: body?.userId,
+      email: body?.email,
+      role: body?.role,
+    })
+  })
+
+  router.delete('/entities/:id/members/:memberId', async ({ instance, params, user }) => {
+    await assertEntityRole(params.id, user, 'owner')
+    return removeEntityMember(instance, params.id, params.memberId)
+  })
+}
@@ -0,0 +1,19 @@
+import { deltaBuffer } from '../lib/delta-buffer.js'
+import { webhooks } from '../lib/webhooks.js'
+import { requireAdmin } from '../services/auth.js'
+import { HttpRouter } from './router.js'
+
+/**
+ * GET /metrics   Server counters (delta write buffer, webhooks, ...), admins only
+ */
+export function registerMetricsRoutes(router: HttpRouter) {
+  router.get('/metrics', async ({ instance, user }) => {
+    requireAdmin(user)
+    return {
+      documents: instance.getDocumentsCount(),
+      connections: instance.getConnectionsCount(),
+      deltaBuffer: deltaBuffer.getMetrics(),
+      webhooks: webhooks.getMetrics(),
+    }
+  })
+}
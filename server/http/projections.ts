@@ -0,0 +1,21 @@
+import { requireAdmin } from '../services/auth.js'
+import { rebuildAllDrawableProjections, rebuildDrawableProjection } from '../services/projections.js'
+import { HttpError, HttpRouter } from './router.js'
+
+/**
+ * POST /projections/drawables/rebuild   Rebuild yjs_entity_drawables { entityId? } (all entities without it), admins only
+ */
+export function registerProjectionRoutes(router: HttpRouter) {
+  router.post('/projections/drawables/rebuild', async ({ instance, body, user }) => {
+    requireAdmin(user)
+    const entityId = body?.entityId
+    if (entityId !== undefined && typeof entityId !== 'string') {
+      throw new HttpError(400, '"entityId" must be a string.')
+    }
+
+    if (entityId) {
+      return { entities: 1, rows: await rebuildDrawableProjection(instance, entityId) }
+    }
+    return rebuildAllDrawableProjections(instance)
+  })
+}
@@ -0,0 +1,66 @@
+import { addDrawable, createEntity, deleteDrawable, readEntity, readEntityUpdate, updateDrawable, updateEntityContent } from '../services/entities.js'
+import { assertEntityRole, requireUser } from '../services/members.js'
+import { HttpError, HttpRouter } from './router.js'
+
+function parseStateVector(value: string | null) {
+  if (value === null) return undefined
+  const stateVector = new Uint8Array(Buffer.from(value, 'base64'))
+  if (stateVector.length === 0) throw new HttpError(400, 'Query parameter "stateVector" must be base64 encoded.')
+  return stateVector
+}
+
+/**
+ * POST   /entities                              Create an entity { type?, id?, title?, content? }, owned by the caller
+ * GET    /entities/:id                          Validated JSON content with metadata
+ * PATCH  /entities/:id                          Replace top-level fields { content: { name: "..." } }
+ * GET    /entities/:id/state?stateVector=       Yjs update (binary), only what is missing with a base64 state vector
+ * POST   /entities/:id/drawables                Add a drawable { drawable, index? }
+ * PATCH  /entities/:id/drawables/:drawableId    Change properties of a drawable { x: 10, fill: "#f00" }
+ * DELETE /entities/:id/drawables/:drawableId    Remove a drawable
+ */
+export function registerRestRoutes(router: HttpRouter) {
+  router.post('/entities', async ({ instance, body, user }) => {
+    return createEntity(instance, {
+      type: body?.type,
+      id: body?.id,
+      title: body?.title,
+      content: body?.content,
+      ownerId: body?.ownerId,
+    }, requireUser(user))
+  })
+
+  router.get('/entities/:id', async ({ instance, params, user }) => {
+    await assertEntityRole(params.id, user, 'viewer')
+    return readEntity(instance, params.id)
+  })
+
+  router.patch('/entities/:id', async ({ instance, params, body, user }) => {
+    await assertEntityRole(params.id, user, 'editor')
+    if (body?.content === undefined) throw new HttpError(400, '"content" is required.')
+    return updateEntityContent(instance, params.id, body.content, user)
+  })
+
+  router.get('/entities/:id/state', async ({ instance, params, query, response, user }) => {
+    await assertEntityRole(params.id, user, 'viewer')
+    const { update } = await readEntityUpdate(instance, params.id, parseStateVector(query.get('stateVector')))
+
+    response.writeHead(200, { 'Content-Type': 'application/octet-stream', 'Content-Length': update.length })
+    response.end(Buffer.from(update))
+  })
+
+  router.post('/entities/:id/drawables', async ({ instance, params, body, user }) => {
+    await assertEntityRole(params.id, user, 'editor')
+    if (!body?.drawable) throw new HttpError(400, '"drawable" is required.')
+    return addDrawable(instance, params.id, body.drawable, body.index, user)
+  })
+
+  router.patch('/entities/:id/drawables/:drawableId', async ({ instance, params, body, user }) => {
+    await assertEntityRole(params.id, user, 'editor')
+    return updateDrawable(instance, params.id, params.drawableId, body, user)
+  })
+
+  router.delete('/entities/:id/drawables/:drawableId', async ({ instance, params, user }) => {
+    await assertEntityRole(params.id, user, 'editor')
+    return deleteDrawable(instance, params.id, params.drawableId, user)
+  })
+}
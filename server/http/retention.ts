@@ -0,0 +1,35 @@
+import { entityConfigs } from 'collaborative-editor-shared'
+import { config } from '../config.js'
+import { ValidationError } from '../errors.js'
+import { formatRetentionPolicy } from '../lib/retention.js'
+import { requireAdmin } from '../services/auth.js'
+import { getRetentionPolicy, runRetentionPass } from '../services/retention.js'
+import { HttpRouter } from './router.js'
+
+/**
+ * GET  /retention      Delta retention policy of each entity type
+ * POST /retention/run  Report what the policies would compact, or enforce them with { dryRun: false }
+ *
+ * Admins only: a run compacts the history of every entity, which can't be undone.
+ */
+export function registerRetentionRoutes(router: HttpRouter) {
+  router.get('/retention', async ({ user }) => {
+    requireAdmin(user)
+    return {
+      defaultPolicy: formatRetentionPolicy(config.retention.defaultPolicy),
+      dryRun: config.retention.dryRun,
+      policies: Object.fromEntries(
+        Object.keys(entityConfigs).map(entityType => [entityType, formatRetentionPolicy(getRetentionPolicy(entityType))])
+      ),
+    }
+  })
+
+  router.post('/retention/run', async ({ instance, body, user }) => {
+    requireAdmin(user)
+    if (body?.dryRun !== undefined && typeof body.dryRun !== 'boolean') {
+      throw new ValidationError('"dryRun" must be a boolean.')
+    }
+    // Compacting has to be asked for explicitly
+    return runRetentionPass(instance, { dryRun: body?.dryRun !== false })
+  })
+}
@@ -0,0 +1,189 @@
+import { Hocuspocus, onRequestPayload } from '@hocuspocus/server'
+import { IncomingMessage, ServerResponse } from 'http'
+import { config } from '../config.js'
+import { ConflictError, EntityDeletedError, ForbiddenError, NotFoundError, UnauthorizedError, ValidationError } from '../errors.js'
+import { AuthUser, SERVICE_USER, authenticateToken, isServiceKey } from '../services/auth.js'
+
+export interface RouteContext {
+  request: IncomingMessage
+  response: ServerResponse
+  instance: Hocuspocus
+  params: Record<string, string>
+  query: URLSearchParams
+  body: any
+  /** User of the `Authorization: Bearer <access token>` header, null without the header, SERVICE_USER for the service key */
+  user: AuthUser | null
+}
+
+/**
+ * A route handler returns the JSON response body, or writes to `response` itself
+ * (e.g. for binary responses) and returns undefined.
+ */
+export type RouteHandler = (context: RouteContext) => Promise<any>
+
+interface Route {
+  method: string
+  pattern: RegExp
+  paramNames: string[]
+  handler: RouteHandler
+}
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message)
+    this.name = 'HttpError'
+  }
+}
+
+const MAX_BODY_SIZE = 5 * 1024 * 1024
+
+function readBody(request: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    let size = 0
+
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length
+      if (size > MAX_BODY_SIZE) {
+        reject(new HttpError(413, 'Request body too large.'))
+        request.destroy()
+        return
+      }
+      chunks.push(chunk)
+    })
+    request.on('end', () => resolve(Buffer.concat(chunks)))
+    request.on('error', reject)
+  })
+}
+
+async function parseBody(request: IncomingMessage) {
+  if (request.method === 'GET' || request.method === 'HEAD') return undefined
+
+  const raw = await readBody(request)
+  if (raw.length === 0) return undefined
+
+  const contentType = request.headers['content-type'] || ''
+  if (contentType.includes('application/json')) {
+    try {
+      return JSON.parse(raw.toString('utf8'))
+    } catch {
+      throw new HttpError(400, 'Invalid JSON body.')
+    }
+  }
+  return raw
+}
+
+function decodeParam(value: string) {
+  try {
+    return decodeURIComponent(value)
+  } catch {
+    throw new HttpError(400, 'Invalid URL encoding.')
+  }
+}
+
+function statusOf(error: any) {
+  if (error instanceof HttpError) return error.status
+  if (error instanceof NotFoundError) return 404
+  if (error instanceof EntityDeletedError) return 410
+  if (error instanceof ValidationError) return 400
+  if (error instanceof ConflictError) return 409
+  if (error instanceof UnauthorizedError) return 401
+  if (error instanceof ForbiddenError) return 403
+  return 500
+}
+
+/**
+ * An invalid token fails the request, routes decide whether a user is required.
+ */
+async function authenticateRequest(request: IncomingMessage) {
+  const authorization = request.headers.authorization
+  if (!authorization) return null
+
+  const [scheme, token] = authorization.split(' ')
+  if (scheme.toLowerCase() !== 'bearer' || !token) throw new UnauthorizedError('Expected an "Authorization: Bearer <token>" header.')
+  if (isServiceKey(token)) return SERVICE_USER
+  return authenticateToken(token)
+}
+
+export function setCorsHeaders(response: ServerResponse) {
+  response.setHeader('Access-Control-Allow-Origin', config.cors.origin)
+  response.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS')
+  response.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization')
+}
+
+export function sendJson(response: ServerResponse, status: number, body: any) {
+  response.writeHead(status, { 'Content-Type': 'application/json' })
+  response.end(JSON.stringify(body))
+}
+
+/**
+ * Minimal router for the HTTP API served next to the Hocuspocus WebSocket.
+ * Paths use `:name` placeholders, e.g. `/entities/:id/versions`.
+ */
+export class HttpRouter {
+  private routes: Route[] = []
+
+  route(method: string, path: string, handler: RouteHandler) {
+    const paramNames: string[] = []
+    const pattern = new RegExp(
+      '^' + path.replace(/:(\w+)/g, (_, name) => {
+        paramNames.push(name)
+        return '([^/]+)'
+      }) + '/?$'
+    )
+    this.routes.push({ method, pattern, paramNames, handler })
+    return this
+  }
+
+  get(path: string, handler: RouteHandler) { return this.route('GET', path, handler) }
+  post(path: string, handler: RouteHandler) { return this.route('POST', path, handler) }
+  patch(path: string, handler: RouteHandler) { return this.route('PATCH', path, handler) }
+  delete(path: string, handler: RouteHandler) { return this.route('DELETE', path, handler) }
+
+  /**
+   * Handles the request if a route matches its path.
+   * Returns false when no route matches, so Hocuspocus can fall back to its default response.
+   */
+  async handle({ request, response, instance }: onRequestPayload): Promise<boolean> {
+    const url = new URL(request.url || '/', 'http://localhost')
+    const candidates = this.routes.filter(route => route.pattern.test(url.pathname))
+    if (candidates.length === 0) return false
+
+    setCorsHeaders(response)
+
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204)
+      response.end()
+      return true
+    }
+
+    const route = candidates.find(candidate => candidate.method === request.method)
+    if (!route) {
+      sendJson(response, 405, { error: `Method ${request.method} not allowed.` })
+      return true
+    }
+
+    const match = url.pathname.match(route.pattern)!
+
+    try {
+      const params = Object.fromEntries(
+        route.paramNames.map((name, index) => [name, decodeParam(match[index + 1])])
+      )
+      const body = await parseBody(request)
+      const user = await authenticateRequest(request)
+      const result = await route.handler({ request, response, instance, params, query: url.searchParams, body, user })
+
+      if (!response.headersSent) {
+        sendJson(response, 200, result ?? null)
+      }
+    } catch (error: any) {
+      const status = statusOf(error)
+      if (status === 500) console.error(`[HttpApi] ${request.method} ${url.pathname} failed:`, error)
+
+      if (!response.headersSent) {
+        sendJson(response, status, { error: status === 500 ? 'Internal server error.' : error.message })
+      }
+    }
+    return true
+  }
+}
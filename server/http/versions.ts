@@ -0,0 +1,25 @@
+import { createVersion, listVersions, restoreVersion } from '../services/versions.js'
+import { assertEntityRole } from '../services/members.js'
+import { HttpRouter } from './router.js'
+
+/**
+ * GET  /entities/:id/versions                      List versions (newest first)
+ * POST /entities/:id/versions                      Create a version authored by the caller { name }
+ * POST /entities/:id/versions/:versionId/restore   Restore a version as a forward update
+ */
+export function registerVersionRoutes(router: HttpRouter) {
+  router.get('/entities/:id/versions', async ({ params, user }) => {
+    await assertEntityRole(params.id, user, 'viewer')
+    return listVersions(params.id)
+  })
+
+  router.post('/entities/:id/versions', async ({ instance, params, body, user }) => {
+    await assertEntityRole(params.id, user, 'editor')
+    return createVersion(instance, params.id, body?.name, user)
+  })
+
+  router.post('/entities/:id/versions/:versionId/restore', async ({ instance, params, user }) => {
+    await assertEntityRole(params.id, user, 'editor')
+    return restoreVersion(instance, params.id, params.versionId, user)
+  })
+}
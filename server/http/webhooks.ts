@@ -0,0 +1,32 @@
+import { requireAdmin } from '../services/auth.js'
+import { deleteWebhook, listWebhooks, registerWebhook } from '../services/webhooks.js'
+import { HttpRouter } from './router.js'
+
+/**
+ * POST   /webhooks              Register an endpoint { entityType, url, secret?, events? }
+ * GET    /webhooks?entityType=  List endpoints (without their secrets)
+ * DELETE /webhooks/:id          Remove an endpoint
+ *
+ * Admins only: webhooks receive the events of every entity of their type.
+ */
+export function registerWebhookRoutes(router: HttpRouter) {
+  router.post('/webhooks', async ({ body, user }) => {
+    requireAdmin(user)
+    return registerWebhook({
+      entityType: body?.entityType,
+      url: body?.url,
+      secret: body?.secret,
+      events: body?.events,
+    })
+  })
+
+  router.get('/webhooks', async ({ query, user }) => {
+    requireAdmin(user)
+    return listWebhooks(query.get('entityType') ?? undefined)
+  })
+
+  router.delete('/webhooks/:id', async ({ params, user }) => {
+    requireAdmin(user)
+    return deleteWebhook(params.id)
+  })
+}
@@ -0,0 +1,277 @@
+import * as Y from 'yjs'
+import { config } from '../config.js'
+import { DeltaOrigin, getStorage } from '../storage/index.js'
+import { describeUpdate } from './ydoc.js'
+
+export interface BufferedUpdate {
+  entityId: string
+  entityType: string
+  update: Uint8Array
+  userId: string | null
+  origin: DeltaOrigin
+}
+
+export interface DeltaBufferOptions {
+  /** Updates of an entity within this window are merged into one delta, 0 writes every update */
+  windowMs: number
+  /** Flush an entity early once it has this many buffered updates */
+  maxUpdates: number
+  /** Flush an entity early once its buffered updates reach this size */
+  maxBytes: number
+  /** Above this many buffered bytes (all entities) every update is flushed right away */
+  earlyFlushBytes: number
+  /** Above this many buffered bytes (all entities) incoming messages are held until writes catch up */
+  maxBufferedBytes: number
+  /** Writes taking longer than this are counted and logged as slow */
+  slowWriteMs: number
+}
+
+export interface DeltaBufferMetrics {
+  bufferedEntities: number
+  bufferedUpdates: number
+  bufferedBytes: number
+  receivedUpdates: number
+  writtenUpdates: number
+  writtenDeltas: number
+  failedWrites: number
+  /** True while incoming messages are held because more than maxBufferedBytes are buffered */
+  throttled: boolean
+  /** Messages currently waiting for the buffer to drain */
+  heldMessages: number
+  /** Messages that had to wait since the start */
+  totalHeldMessages: number
+  /** Flushes that found a write of the same entity in progress and were merged into the next one */
+  deferredFlushes: number
+  slowWrites: number
+  lastWriteMs: number | null
+  maxWriteMs: number
+}
+
+/** Consecutive updates with the same author and origin, stored as one delta */
+interface PendingDelta {
+  entityType: string
+  userId: string | null
+  origin: DeltaOrigin
+  updates: Uint8Array[]
+  bytes: number
+}
+
+interface EntityBuffer {
+  pending: PendingDelta[]
+  timer: NodeJS.Timeout | null
+  writing: Promise<void> | null
+  flushQueued: boolean
+}
+
+/**
+ * Coalesces the updates of each entity with Y.mergeUpdates before they are
+ * appended to the delta log, so a dragging user writes a few rows per second
+ * instead of one per pointer move.
+ *
+ * An entity has at most one write in flight. Updates arriving meanwhile keep
+ * merging into the buffer, so a slow database gets fewer, larger deltas rather
+ * than a growing queue of inserts. Failed writes stay buffered and are retried.
+ *
+ * Past `earlyFlushBytes` it stops waiting for the window. Past `maxBufferedBytes`
+ * the database is clearly not keeping up and backpressure kicks in: updates are
+ * already applied when they get here, so instead `waitForCapacity` holds the next
+ * incoming messages (see UpdateTracker) until writes bring the buffer back down.
+ * Held clients keep their changes locally and sync them once they are let through.
+ */
+export class DeltaWriteBuffer {
+  private buffers = new Map<string, EntityBuffer>()
+  private bufferedBytes = 0
+  private flushingEarly = false
+  private waiters: (() => void)[] = []
+  private metrics = {
+    receivedUpdates: 0,
+    writtenUpdates: 0,
+    writtenDeltas: 0,
+    failedWrites: 0,
+    totalHeldMessages: 0,
+    deferredFlushes: 0,
+    slowWrites: 0,
+    lastWriteMs: null as number | null,
+    maxWriteMs: 0,
+  }
+
+  constructor(private options: DeltaBufferOptions) {}
+
+  add({ entityId, entityType, update, userId, origin }: BufferedUpdate) {
+    let buffer = this.buffers.get(entityId)
+    if (!buffer) {
+      buffer = { pending: [], timer: null, writing: null, flushQueued: false }
+      this.buffers.set(entityId, buffer)
+    }
+
+    const last = buffer.pending[buffer.pending.length - 1]
+    if (last && last.entityType === entityType && last.userId === userId && last.origin === origin) {
+      last.updates.push(update)
+      last.bytes += update.length
+    } else {
+      buffer.pending.push({ entityType, userId, origin, updates: [update], bytes: update.length })
+    }
+
+    this.metrics.receivedUpdates++
+    this.bufferedBytes += update.length
+
+    if (this.bufferedBytes > this.options.earlyFlushBytes && !this.flushingEarly) {
+      this.flushingEarly = true
+      console.warn(`[DeltaBuffer] ${this.bufferedBytes} bytes buffered, the database is not keeping up. Flushing without delay.`)
+    }
+
+    const { updates, bytes } = this.measure(buffer.pending)
+    if (
+      this.options.windowMs <= 0 ||
+      this.flushingEarly ||
+      updates >= this.options.maxUpdates ||
+      bytes >= this.options.maxBytes
+    ) {
+      void this.flush(entityId)
+    } else if (!buffer.timer) {
+      buffer.timer = setTimeout(() => void this.flush(entityId), this.options.windowMs)
+    }
+  }
+
+  /**
+   * Resolves right away while the buffer is below `maxBufferedBytes`, otherwise once
+   * writes brought it back below. Callers are released in the order they waited.
+   */
+  waitForCapacity(): Promise<void> {
+    if (!this.isThrottled()) return Promise.resolve()
+
+    if (this.waiters.length === 0) {
+      console.warn(`[DeltaBuffer] ${this.bufferedBytes} bytes buffered, holding incoming messages until the delta log catches up.`)
+    }
+    this.metrics.totalHeldMessages++
+    return new Promise(resolve => this.waiters.push(resolve))
+  }
+
+  /**
+   * Writes the buffered updates of an entity. Resolves once everything buffered
+   * before the call has been written (or has failed and is waiting for a retry).
+   */
+  flush(entityId: string): Promise<void> {
+    const buffer = this.buffers.get(entityId)
+    if (!buffer) return Promise.resolve()
+
+    if (buffer.timer) {
+      clearTimeout(buffer.timer)
+      buffer.timer = null
+    }
+
+    if (buffer.writing) {
+      buffer.flushQueued = true
+      this.metrics.deferredFlushes++
+      return buffer.writing
+    }
+
+    buffer.writing = this.drain(entityId, buffer).finally(() => {
+      buffer.writing = null
+      if (buffer.pending.length === 0 && !buffer.timer) this.buffers.delete(entityId)
+    })
+    return buffer.writing
+  }
+
+  async flushAll() {
+    await Promise.all(Array.from(this.buffers.keys()).map(entityId => this.flush(entityId)))
+
+    const { bufferedUpdates } = this.getMetrics()
+    if (bufferedUpdates > 0) {
+      console.error(`[DeltaBuffer] ${bufferedUpdates} updates could not be written to the delta log.`)
+    }
+  }
+
+  getMetrics(): DeltaBufferMetrics {
+    let bufferedUpdates = 0
+    this.buffers.forEach(buffer => {
+      bufferedUpdates += this.measure(buffer.pending).updates
+    })
+
+    return {
+      bufferedEntities: this.buffers.size,
+      bufferedUpdates,
+      bufferedBytes: this.bufferedBytes,
+      throttled: this.isThrottled(),
+      heldMessages: this.waiters.length,
+      ...this.metrics,
+    }
+  }
+
+  private isThrottled() {
+    return this.bufferedBytes > this.options.maxBufferedBytes
+  }
+
+  private releaseWaiters() {
+    if (this.waiters.length === 0 || this.isThrottled()) return
+
+    console.warn(`[DeltaBuffer] Delta log caught up, releasing ${this.waiters.length} held messages.`)
+    const waiters = this.waiters
+    this.waiters = []
+    waiters.forEach(resolve => resolve())
+  }
+
+  private measure(pending: PendingDelta[]) {
+    return pending.reduce(
+      (total, delta) => ({ updates: total.updates + delta.updates.length, bytes: total.bytes + delta.bytes }),
+      { updates: 0, bytes: 0 }
+    )
+  }
+
+  private async drain(entityId: string, buffer: EntityBuffer) {
+    do {
+      buffer.flushQueued = false
+      const written = await this.write(entityId, buffer)
+      if (!written) return
+    } while (buffer.flushQueued && buffer.pending.length > 0)
+  }
+
+  private async write(entityId: string, buffer: EntityBuffer) {
+    const pending = buffer.pending
+    buffer.pending = []
+
+    for (let index = 0; index < pending.length; index++) {
+      const { entityType, userId, origin, updates, bytes } = pending[index]
+      const update = updates.length === 1 ? updates[0] : Y.mergeUpdates(updates)
+      const startedAt = Date.now()
+
+      try {
+        await getStorage().appendDelta({
+          entityId,
+          entityType,
+          update,
+          userId,
+          origin,
+          ...describeUpdate(update),
+        })
+      } catch (error) {
+        console.error(`[DeltaBuffer] Error writing ${updates.length} updates of ${entityId}, retrying:`, error)
+        this.metrics.failedWrites++
+        // Keep the unwritten updates ahead of the ones that arrived meanwhile
+        buffer.pending = [...pending.slice(index), ...buffer.pending]
+        if (!buffer.timer) {
+          buffer.timer = setTimeout(() => void this.flush(entityId), Math.max(this.options.windowMs, 1000))
+        }
+        return false
+      }
+
+      const duration = Date.now() - startedAt
+      this.metrics.lastWriteMs = duration
+      this.metrics.maxWriteMs = Math.max(this.metrics.maxWriteMs, duration)
+      if (duration > this.options.slowWriteMs) {
+        this.metrics.slowWrites++
+        console.warn(`[DeltaBuffer] Slow delta write for ${entityId}: ${duration}ms`)
+      }
+
+      this.metrics.writtenUpdates += updates.length
+      this.metrics.writtenDeltas++
+      this.bufferedBytes -= bytes
+      this.releaseWaiters()
+    }
+
+    if (this.bufferedBytes <= this.options.earlyFlushBytes) this.flushingEarly = false
+    return true
+  }
+}
+
+export const deltaBuffer = new DeltaWriteBuffer(config.deltaBuffer)
@@ -0,0 +1,60 @@
+/**
+ * Differences between two versions of an entity's content, as returned by
+ * docToJSON. Arrays of items with an `id` (e.g. drawables) are compared item by
+ * item; other fields are compared as a whole.
+ */
+
+export interface ItemChange {
+  id: string
+  /** Properties whose value differs, added or removed properties included */
+  keys: string[]
+  before: any
+  after: any
+}
+
+export type FieldDiff =
+  | { kind: 'items'; added: any[]; removed: any[]; changed: ItemChange[] }
+  | { kind: 'value'; before: any; after: any }
+
+const hasIds = (value: any): value is { id: string }[] =>
+  Array.isArray(value) && value.every(item => item && typeof item === 'object' && typeof item.id === 'string')
+
+function diffItems(before: { id: string }[], after: { id: string }[]): FieldDiff | null {
+  const beforeById = new Map(before.map(item => [item.id, item]))
+  const afterById = new Map(after.map(item => [item.id, item]))
+
+  const added = after.filter(item => !beforeById.has(item.id))
+  const removed = before.filter(item => !afterById.has(item.id))
+  const changed = after.flatMap(item => {
+    const previous: Record<string, any> | undefined = beforeById.get(item.id)
+    if (!previous) return []
+
+    const current: Record<string, any> = item
+    const keys = Array.from(new Set([...Object.keys(previous), ...Object.keys(current)]))
+      .filter(key => JSON.stringify(previous[key]) !== JSON.stringify(current[key]))
+    return keys.length > 0 ? [{ id: item.id, keys, before: previous, after: item }] : []
+  })
+
+  if (added.length === 0 && removed.length === 0 && changed.length === 0) return null
+  return { kind: 'items', added, removed, changed }
+}
+
+/**
+ * Changed fields only; an empty object means the contents are equal.
+ */
+export function diffContent(before: Record<string, any>, after: Record<string, any>) {
+  const diff: Record<string, FieldDiff> = {}
+
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    const previous = before[key]
+    const current = after[key]
+
+    if (hasIds(previous) && hasIds(current)) {
+      const items = diffItems(previous, current)
+      if (items) diff[key] = items
+    } else if (JSON.stringify(previous) !== JSON.stringify(current)) {
+      diff[key] = { kind: 'value', before: previous ?? null, after: current ?? null }
+    }
+  }
+  return diff
+}
@@ -0,0 +1,133 @@
+import { JsonWebKey, KeyObject, createHmac, createPublicKey, timingSafeEqual, verify } from 'crypto'
+
+/**
+ * Offline verification of Supabase access tokens (JWS compact serialization).
+ *
+ * Legacy projects sign with HS256 and the project JWT secret, projects with
+ * asymmetric signing keys use RS256 or ES256 with the keys of their JWKS.
+ */
+
+export interface JwtClaims {
+  sub?: string
+  email?: string
+  role?: string
+  aud?: string | string[]
+  iss?: string
+  exp?: number
+  nbf?: number
+  [claim: string]: unknown
+}
+
+export interface JwtVerificationKeys {
+  /** Shared secret for HS256 tokens */
+  secret?: string
+  /** Public key of the JWKS for a `kid`, undefined when unknown */
+  getPublicKey?: (kid: string | undefined, alg: string) => Promise<KeyObject | undefined>
+}
+
+export interface JwtVerificationOptions {
+  audience?: string
+  issuer?: string
+  /** Allowed clock difference for `exp` and `nbf` */
+  clockToleranceSeconds?: number
+}
+
+export class JwtError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'JwtError'
+  }
+}
+
+function decodeSegment(segment: string) {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'))
+  } catch {
+    throw new JwtError('Malformed token.')
+  }
+}
+
+async function verifySignature(alg: string, kid: string | undefined, signed: string, signature: Buffer, keys: JwtVerificationKeys) {
+  if (alg === 'HS256') {
+    if (!keys.secret) throw new JwtError('HS256 tokens are not accepted, SUPABASE_JWT_SECRET is not set.')
+    const expected = createHmac('sha256', keys.secret).update(signed).digest()
+    return signature.length === expected.length && timingSafeEqual(signature, expected)
+  }
+
+  if (alg === 'RS256' || alg === 'ES256') {
+    const key = await keys.getPublicKey?.(kid, alg)
+    if (!key) throw new JwtError(`No public key for ${alg} token${kid ? ` with kid ${kid}` : ''}.`)
+    const keyType = alg === 'RS256' ? 'rsa' : 'ec'
+    if (key.asymmetricKeyType !== keyType) {
+      throw new JwtError(`${alg} token${kid ? ` with kid ${kid}` : ''} doesn't match the ${key.asymmetricKeyType ?? 'unknown'} key.`)
+    }
+    try {
+      // JWS carries ECDSA signatures as r || s rather than DER
+      return verify('sha256', Buffer.from(signed), alg === 'ES256' ? { key, dsaEncoding: 'ieee-p1363' } : key, signature)
+    } catch (error) {
+      // The key can't check this token, e.g. an EC key of another curve
+      throw new JwtError(`Can't verify the ${alg} token signature: ${(error as Error).message}`)
+    }
+  }
+
+  throw new JwtError(`Unsupported token algorithm "${alg}".`)
+}
+
+/**
+ * Checks the signature and the `exp`, `nbf`, `aud` and `iss` claims of a token
+ * and returns its claims. Throws a JwtError otherwise.
+ */
+export async function verifyJwt(
+  token: string,
+  keys: JwtVerificationKeys,
+  { audience, issuer, clockToleranceSeconds = 30 }: JwtVerificationOptions = {}
+): Promise<JwtClaims> {
+  const segments = token.split('.')
+  if (segments.length !== 3) throw new JwtError('Malformed token.')
+
+  const [encodedHeader, encodedPayload, encodedSignature] = segments
+  const header = decodeSegment(encodedHeader)
+  const claims: JwtClaims = decodeSegment(encodedPayload)
+  if (!claims || typeof claims !== 'object') throw new JwtError('Malformed token.')
+
+  const valid = await verifySignature(
+    String(header?.alg),
+    typeof header?.kid === 'string' ? header.kid : undefined,
+    `${encodedHeader}.${encodedPayload}`,
+    Buffer.from(encodedSignature, 'base64url'),
+    keys
+  )
+  if (!valid) throw new JwtError('Invalid token signature.')
+
+  const now = Math.floor(Date.now() / 1000)
+  if (typeof claims.exp !== 'number') throw new JwtError('Token has no expiry.')
+  if (claims.exp + clockToleranceSeconds < now) throw new JwtError('Token expired.')
+  if (typeof claims.nbf === 'number' && claims.nbf - clockToleranceSeconds > now) throw new JwtError('Token not yet valid.')
+
+  if (audience) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+    if (!audiences.includes(audience)) throw new JwtError(`Token audience is not "${audience}".`)
+  }
+  if (issuer && claims.iss !== issuer) throw new JwtError(`Token issuer is not "${issuer}".`)
+
+  return claims
+}
+
+/**
+ * Imports the keys of a JWKS (`{ keys: [...] }`) that can verify RS256 or ES256 tokens.
+ * Keys that can't be imported are skipped, tokens signed with them are refused.
+ */
+export function importJwks(jwks: { keys?: (JsonWebKey & { kid?: string; alg?: string; use?: string })[] }) {
+  const keys: { kid?: string; alg?: string; key: KeyObject }[] = []
+
+  for (const jwk of jwks?.keys ?? []) {
+    if (jwk.use && jwk.use !== 'sig') continue
+    if (jwk.kty !== 'RSA' && jwk.kty !== 'EC') continue
+    try {
+      keys.push({ kid: jwk.kid, alg: jwk.alg, key: createPublicKey({ key: jwk, format: 'jwk' }) })
+    } catch (error) {
+      console.warn(`[Auth] Skipping JWKS key${jwk.kid ? ` ${jwk.kid}` : ''}: ${(error as Error).message}`)
+    }
+  }
+  return keys
+}
@@ -0,0 +1,55 @@
+import { lookup } from 'dns/promises'
+import { BlockList, isIP } from 'net'
+
+/**
+ * Checks for outgoing requests (webhooks) so callers can't make the server reach
+ * loopback, private or link-local services.
+ */
+
+const privateNetworks = new BlockList()
+
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // link-local, cloud metadata endpoints
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved and broadcast
+] as const) {
+  privateNetworks.addSubnet(network, prefix, 'ipv4')
+}
+
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7], // unique local
+  ['fe80::', 10], // link-local
+  ['ff00::', 8], // multicast
+] as const) {
+  privateNetworks.addSubnet(network, prefix, 'ipv6')
+}
+
+export function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses reach the IPv4 host
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1]
+  if (mapped) return isPrivateAddress(mapped)
+
+  const family = isIP(address)
+  if (family === 0) return true
+  return privateNetworks.check(address, family === 6 ? 'ipv6' : 'ipv4')
+}
+
+/**
+ * Resolves the host of a URL and returns the first private address it points to,
+ * null when all of them are public. DNS errors are thrown.
+ */
+export async function findPrivateAddress(url: URL): Promise<string | null> {
+  const host = url.hostname.replace(/^\[|\]$/g, '')
+  const addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map(({ address }) => address)
+  return addresses.find(isPrivateAddress) ?? null
+}
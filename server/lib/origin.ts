@@ -0,0 +1,33 @@
+import { Connection } from '@hocuspocus/server'
+import { DeltaOrigin } from '../storage/index.js'
+
+/**
+ * Transaction origin for changes made by the server itself. Hocuspocus passes the
+ * origin to onChange hooks as the connection, so it carries the context
+ * (entityType, user, ...) and how the change reached the server.
+ */
+export interface ServerOrigin {
+  context: Record<string, any>
+  socketId: 'server'
+  transport: DeltaOrigin
+}
+
+export function serverOrigin(context: Record<string, any>, transport: DeltaOrigin = 'server'): ServerOrigin {
+  return { context, socketId: 'server', transport }
+}
+
+// Every onChange hook gets the same update, so the validation gate can flag it for the others
+const rejectedUpdates = new WeakSet<Uint8Array>()
+
+export function markRejected(update: Uint8Array) {
+  rejectedUpdates.add(update)
+}
+
+/**
+ * How the update of an onChange hook reached the server.
+ */
+export function getDeltaOrigin(transactionOrigin: unknown, update?: Uint8Array): DeltaOrigin {
+  if (update && rejectedUpdates.has(update)) return 'rejected'
+  if (transactionOrigin instanceof Connection) return 'websocket'
+  return (transactionOrigin as ServerOrigin | undefined)?.transport ?? 'server'
+}
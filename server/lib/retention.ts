@@ -0,0 +1,55 @@
+/**
+ * How long the deltas of an entity type are kept in yjs_entity_deltas. Expired
+ * deltas are folded into the compacted state, so the content is never lost,
+ * only the ability to replay, blame or restore the history they held.
+ *
+ * - `forever`: deltas are never compacted (full audit history)
+ * - `days`: deltas older than `days` days are compacted
+ * - `last`: only the newest `count` deltas are kept
+ * - `compacted`: deltas are compacted once older than COMPACTION_MIN_AGE_MS
+ */
+export type RetentionPolicy =
+  | { keep: 'forever' }
+  | { keep: 'days'; days: number }
+  | { keep: 'last'; count: number }
+  | { keep: 'compacted' }
+
+/**
+ * Parses `forever`, `days:<n>`, `last:<n>` or `compacted`.
+ */
+export function parseRetentionPolicy(value: string): RetentionPolicy {
+  const [keep, amount, ...rest] = value.trim().split(':')
+  const number = Number(amount)
+  const validAmount = amount !== undefined && Number.isInteger(number) && number > 0 && rest.length === 0
+
+  if (keep === 'forever' && amount === undefined) return { keep }
+  if (keep === 'compacted' && amount === undefined) return { keep }
+  if (keep === 'days' && validAmount) return { keep, days: number }
+  if (keep === 'last' && validAmount) return { keep, count: number }
+  throw new Error(`Invalid retention policy "${value}". Use forever, days:<n>, last:<n> or compacted.`)
+}
+
+/**
+ * Parses a list of `<entityType>=<policy>` pairs separated by commas,
+ * e.g. `document=days:30,auditLog=forever`.
+ */
+export function parseRetentionPolicies(value: string) {
+  const policies: Record<string, RetentionPolicy> = {}
+  for (const pair of value.split(',').map(pair => pair.trim()).filter(Boolean)) {
+    const [entityType, policy] = pair.split('=')
+    if (!entityType || policy === undefined) throw new Error(`Invalid retention "${pair}", expected <entityType>=<policy>.`)
+    policies[entityType.trim()] = parseRetentionPolicy(policy)
+  }
+  return policies
+}
+
+export function formatRetentionPolicy(policy: RetentionPolicy) {
+  switch (policy.keep) {
+    case 'days':
+      return `days:${policy.days}`
+    case 'last':
+      return `last:${policy.count}`
+    default:
+      return policy.keep
+  }
+}
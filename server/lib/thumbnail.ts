@@ -0,0 +1,89 @@
+import { Drawable, drawableSchema } from 'collaborative-editor-shared'
+import * as Y from 'yjs'
+
+const THUMBNAIL_WIDTH = 160
+const THUMBNAIL_HEIGHT = 120
+const PADDING = 8
+
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+// Keeps the markup small, the thumbnail is stored with every entity
+const round = (value: number) => Math.round(value * 100) / 100
+
+function getBounds(drawable: Drawable) {
+  switch (drawable.type) {
+    case 'rectangle': {
+      // Konva allows negative sizes when a shape is drawn up or to the left
+      const x = Math.min(drawable.x, drawable.x + drawable.width)
+      const y = Math.min(drawable.y, drawable.y + drawable.height)
+      return { minX: x, minY: y, maxX: x + Math.abs(drawable.width), maxY: y + Math.abs(drawable.height) }
+    }
+    case 'ellipse':
+      return {
+        minX: drawable.x - Math.abs(drawable.radiusX),
+        minY: drawable.y - Math.abs(drawable.radiusY),
+        maxX: drawable.x + Math.abs(drawable.radiusX),
+        maxY: drawable.y + Math.abs(drawable.radiusY),
+      }
+  }
+}
+
+function renderDrawable(drawable: Drawable) {
+  const fill = escapeAttribute(drawable.fill)
+
+  switch (drawable.type) {
+    case 'rectangle': {
+      const { minX, minY, maxX, maxY } = getBounds(drawable)
+      return `<rect x="${round(minX)}" y="${round(minY)}" width="${round(maxX - minX)}" height="${round(maxY - minY)}" fill="${fill}"/>`
+    }
+    case 'ellipse':
+      // Matches the canvas, which outlines ellipses in black
+      return `<ellipse cx="${round(drawable.x)}" cy="${round(drawable.y)}" rx="${round(Math.abs(drawable.radiusX))}" ry="${round(Math.abs(drawable.radiusY))}" fill="${fill}" stroke="black" vector-effect="non-scaling-stroke"/>`
+  }
+}
+
+/**
+ * Renders drawables as a small SVG. The view box is fitted to the drawables so
+ * the preview shows the content wherever it sits on the canvas.
+ */
+export function renderThumbnailSvg(drawables: Drawable[]) {
+  const open = `<svg xmlns="http://www.w3.org/2000/svg" width="${THUMBNAIL_WIDTH}" height="${THUMBNAIL_HEIGHT}"`
+  if (drawables.length === 0) {
+    return `${open} viewBox="0 0 ${THUMBNAIL_WIDTH} ${THUMBNAIL_HEIGHT}"/>`
+  }
+
+  const bounds = drawables.map(getBounds).reduce((total, current) => ({
+    minX: Math.min(total.minX, current.minX),
+    minY: Math.min(total.minY, current.minY),
+    maxX: Math.max(total.maxX, current.maxX),
+    maxY: Math.max(total.maxY, current.maxY),
+  }))
+
+  // Grow the view box to the thumbnail aspect ratio, so the content stays centered
+  const scale = Math.max(
+    (bounds.maxX - bounds.minX) / (THUMBNAIL_WIDTH - 2 * PADDING),
+    (bounds.maxY - bounds.minY) / (THUMBNAIL_HEIGHT - 2 * PADDING),
+    1e-6
+  )
+  const width = THUMBNAIL_WIDTH * scale
+  const height = THUMBNAIL_HEIGHT * scale
+  const x = (bounds.minX + bounds.maxX - width) / 2
+  const y = (bounds.minY + bounds.maxY - height) / 2
+
+  return `${open} viewBox="${round(x)} ${round(y)} ${round(width)} ${round(height)}">${drawables.map(renderDrawable).join('')}</svg>`
+}
+
+/**
+ * Thumbnail of an entity with a `drawables` array, or null for entity types without one.
+ * Drawables failing the schema are left out.
+ */
+export function renderEntityThumbnail(doc: Y.Doc) {
+  if (!doc.share.has('drawables')) return null
+
+  const drawables = doc.getArray('drawables').toJSON().flatMap(item => {
+    const parsed = drawableSchema.safeParse(item)
+    return parsed.success ? [parsed.data] : []
+  })
+  return renderThumbnailSvg(drawables)
+}
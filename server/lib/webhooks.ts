@@ -0,0 +1,221 @@
+import { createHmac, randomUUID } from 'crypto'
+import { config } from '../config.js'
+import { findPrivateAddress } from './network.js'
+import { DeltaOrigin, StoredWebhook, WebhookEvent, getStorage } from '../storage/index.js'
+
+export interface WebhookDispatcherOptions {
+  /** Changes of an entity are sent once none arrived for this long */
+  debounceMs: number
+  /** Upper bound of the debounce while changes keep arriving */
+  maxWaitMs: number
+  maxAttempts: number
+  /** Delay before the first retry, doubled after every failed attempt */
+  retryDelayMs: number
+  timeoutMs: number
+  /** Deliver to loopback and private network addresses */
+  allowPrivateUrls: boolean
+}
+
+export interface WebhookPayload {
+  /** Delivery id, the same for every attempt of a delivery */
+  id: string
+  event: WebhookEvent
+  entityId: string
+  entityType: string
+  /** Acting user, null for changes made by the server or without authentication */
+  userId: string | null
+  occurredAt: string
+  /** `entity.changed`: ids of the drawables added, changed or removed */
+  drawableIds?: string[]
+  /** `entity.changed`: how the changes reached the server */
+  origin?: DeltaOrigin
+  /** `entity.deleted`: false when moved to the trash, true when permanently deleted */
+  purged?: boolean
+}
+
+export interface WebhookMetrics {
+  pendingEntities: number
+  sentEvents: number
+  deliveries: number
+  failedAttempts: number
+  /** Deliveries dropped after the last attempt */
+  failedDeliveries: number
+}
+
+/** Changes of one user and origin waiting for the debounce to end */
+interface PendingChange {
+  userId: string | null
+  origin: DeltaOrigin
+  drawableIds: Set<string>
+}
+
+interface EntityChanges {
+  entityType: string
+  changes: PendingChange[]
+  firstChangeAt: number
+  timer: NodeJS.Timeout | null
+}
+
+export interface EntityEvent {
+  entityId: string
+  entityType: string
+  userId: string | null
+}
+
+/**
+ * Signature header value: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`.
+ * The timestamp is part of the signed content so old deliveries can't be replayed.
+ */
+export function signWebhookBody(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)) {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+  return `t=${timestamp},v1=${signature}`
+}
+
+const isRetryable = (status: number) => status >= 500 || status === 408 || status === 429
+
+/**
+ * Sends entity events to the webhooks registered for the entity type.
+ *
+ * Changes are debounced per entity and sent as one `entity.changed` event per
+ * acting user with the ids of the drawables they touched. Created and deleted
+ * events are sent right away; a deletion first sends the changes still pending.
+ * Deliveries are signed and retried with exponential backoff on network errors,
+ * timeouts and 5xx responses.
+ */
+export class WebhookDispatcher {
+  private pending = new Map<string, EntityChanges>()
+  private metrics = {
+    sentEvents: 0,
+    deliveries: 0,
+    failedAttempts: 0,
+    failedDeliveries: 0,
+  }
+
+  constructor(private options: WebhookDispatcherOptions) {}
+
+  entityChanged({ entityId, entityType, userId, origin, drawableIds }: EntityEvent & { origin: DeltaOrigin; drawableIds: Iterable<string> }) {
+    const entity = this.pending.get(entityId) ?? { entityType, changes: [], firstChangeAt: Date.now(), timer: null }
+    if (entity.timer) clearTimeout(entity.timer)
+    this.pending.set(entityId, entity)
+
+    let change = entity.changes.find(candidate => candidate.userId === userId && candidate.origin === origin)
+    if (!change) {
+      change = { userId, origin, drawableIds: new Set() }
+      entity.changes.push(change)
+    }
+    for (const drawableId of drawableIds) change.drawableIds.add(drawableId)
+
+    const waited = Date.now() - entity.firstChangeAt
+    const delay = Math.max(0, Math.min(this.options.debounceMs, this.options.maxWaitMs - waited))
+    entity.timer = setTimeout(() => void this.flush(entityId), delay)
+  }
+
+  entityCreated(event: EntityEvent) {
+    return this.send('entity.created', event)
+  }
+
+  async entityDeleted({ purged, ...event }: EntityEvent & { purged: boolean }) {
+    await this.flush(event.entityId)
+    return this.send('entity.deleted', event, { purged })
+  }
+
+  /**
+   * Sends the pending changes of an entity without waiting for the debounce.
+   */
+  async flush(entityId: string) {
+    const entity = this.pending.get(entityId)
+    if (!entity) return
+
+    if (entity.timer) clearTimeout(entity.timer)
+    this.pending.delete(entityId)
+
+    for (const { userId, origin, drawableIds } of entity.changes) {
+      await this.send(
+        'entity.changed',
+        { entityId, entityType: entity.entityType, userId },
+        { origin, drawableIds: Array.from(drawableIds) }
+      )
+    }
+  }
+
+  async flushAll() {
+    await Promise.all(Array.from(this.pending.keys()).map(entityId => this.flush(entityId)))
+  }
+
+  getMetrics(): WebhookMetrics {
+    return { pendingEntities: this.pending.size, ...this.metrics }
+  }
+
+  private async send(event: WebhookEvent, { entityId, entityType, userId }: EntityEvent, details: Partial<WebhookPayload> = {}) {
+    let webhooks: StoredWebhook[]
+    try {
+      webhooks = (await getStorage().listWebhooks(entityType)).filter(webhook => webhook.events.includes(event))
+    } catch (error) {
+      console.error(`[Webhooks] Error listing webhooks for ${event} of ${entityId}:`, error)
+      return
+    }
+    if (webhooks.length === 0) return
+
+    this.metrics.sentEvents++
+    const occurredAt = new Date().toISOString()
+
+    for (const webhook of webhooks) {
+      const payload: WebhookPayload = { id: randomUUID(), event, entityId, entityType, userId, occurredAt, ...details }
+      this.metrics.deliveries++
+      void this.deliver(webhook, payload, 1)
+    }
+  }
+
+  private async deliver(webhook: StoredWebhook, payload: WebhookPayload, attempt: number) {
+    const body = JSON.stringify(payload)
+    let failure: string
+
+    try {
+      // Checked again on every delivery, the host may resolve differently than at registration
+      const privateAddress = this.options.allowPrivateUrls ? null : await findPrivateAddress(new URL(webhook.url))
+      if (privateAddress) {
+        this.metrics.failedDeliveries++
+        console.error(`[Webhooks] ${payload.event} delivery ${payload.id} to ${webhook.url} refused, it resolves to ${privateAddress}.`)
+        return
+      }
+
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Webhook-Id': payload.id,
+          'X-Webhook-Event': payload.event,
+          'X-Webhook-Signature': signWebhookBody(webhook.secret, body),
+        },
+        body,
+        // A redirect could lead to a private address, it counts as a failed delivery
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.options.timeoutMs),
+      })
+      if (response.ok) return
+
+      failure = `HTTP ${response.status}`
+      if (!isRetryable(response.status)) {
+        this.metrics.failedDeliveries++
+        console.error(`[Webhooks] ${payload.event} delivery ${payload.id} to ${webhook.url} rejected with ${failure}, not retrying.`)
+        return
+      }
+    } catch (error: any) {
+      failure = error?.name === 'TimeoutError' ? 'timeout' : error?.message ?? String(error)
+    }
+
+    this.metrics.failedAttempts++
+    if (attempt >= this.options.maxAttempts) {
+      this.metrics.failedDeliveries++
+      console.error(`[Webhooks] ${payload.event} delivery ${payload.id} to ${webhook.url} failed after ${attempt} attempts (${failure}).`)
+      return
+    }
+
+    const delay = this.options.retryDelayMs * 2 ** (attempt - 1)
+    console.warn(`[Webhooks] ${payload.event} delivery ${payload.id} to ${webhook.url} failed (${failure}), retrying in ${delay}ms.`)
+    // Retries don't keep the process alive on shutdown
+    setTimeout(() => void this.deliver(webhook, payload, attempt + 1), delay).unref()
+  }
+}
+
+export const webhooks = new WebhookDispatcher(config.webhooks)
@@ -0,0 +1,133 @@
+import * as Y from 'yjs'
+
+function cloneValue(value: any) {
+  return value instanceof Y.AbstractType ? value.clone() : value
+}
+
+function syncMap(target: Y.Map<any>, source: Y.Map<any>) {
+  for (const key of Array.from(target.keys())) {
+    if (!source.has(key)) target.delete(key)
+  }
+  source.forEach((value, key) => {
+    const current = target.get(key)
+    if (value instanceof Y.AbstractType || current instanceof Y.AbstractType) {
+      if (JSON.stringify(current?.toJSON?.() ?? current) !== JSON.stringify(value?.toJSON?.() ?? value)) {
+        target.set(key, cloneValue(value))
+      }
+    } else if (current !== value) {
+      target.set(key, value)
+    }
+  })
+}
+
+function replaceArray(target: Y.Array<any>, source: Y.Array<any>) {
+  if (target.length > 0) target.delete(0, target.length)
+  target.insert(0, source.toArray().map(cloneValue))
+}
+
+function idOf(value: any): string | undefined {
+  return value instanceof Y.Map ? value.get('id') : undefined
+}
+
+/**
+ * Reconciles arrays of Y.Map items by their `id` field, so unchanged items keep
+ * their identity and concurrent edits on them are not lost. Falls back to
+ * replacing the whole array when items have no id or were reordered.
+ */
+function syncArray(target: Y.Array<any>, source: Y.Array<any>) {
+  const sourceItems = source.toArray()
+  const sourceIds = sourceItems.map(idOf)
+  if (sourceIds.some(id => id === undefined) || target.toArray().some(item => idOf(item) === undefined)) {
+    replaceArray(target, source)
+    return
+  }
+
+  // Remove items that don't exist in the source
+  const keep = new Set(sourceIds)
+  for (let index = target.length - 1; index >= 0; index--) {
+    if (!keep.has(idOf(target.get(index)))) target.delete(index, 1)
+  }
+
+  let targetIndex = 0
+  for (const sourceItem of sourceItems) {
+    const current = targetIndex < target.length ? target.get(targetIndex) : undefined
+
+    if (current && idOf(current) === idOf(sourceItem)) {
+      syncMap(current, sourceItem)
+    } else if (target.toArray().some(item => idOf(item) === idOf(sourceItem))) {
+      replaceArray(target, source)
+      return
+    } else {
+      target.insert(targetIndex, [sourceItem.clone()])
+    }
+    targetIndex++
+  }
+}
+
+/**
+ * Makes the content of `target` equal to the content of `source` by applying
+ * regular (forward) operations to `target`. Unlike replacing the stored state,
+ * the resulting update converges with every connected client and local cache.
+ *
+ * Both documents must have their top-level types defined (see buildEntityDoc).
+ */
+export function replaceDocumentContent(target: Y.Doc, source: Y.Doc) {
+  target.transact(() => {
+    source.share.forEach((sourceType, key) => {
+      if (sourceType instanceof Y.Text) {
+        const targetText = target.getText(key)
+        const text = sourceType.toString()
+        if (targetText.toString() !== text) {
+          targetText.delete(0, targetText.length)
+          targetText.insert(0, text)
+        }
+      } else if (sourceType instanceof Y.Array) {
+        syncArray(target.getArray(key), sourceType)
+      } else if (sourceType instanceof Y.Map) {
+        syncMap(target.getMap(key), sourceType)
+      }
+    })
+  })
+}
+
+/**
+ * Gives every Y.Map item with an `id` in the top-level arrays of `doc` a new id.
+ */
+export function regenerateItemIds(doc: Y.Doc, createId: () => string) {
+  doc.transact(() => {
+    doc.share.forEach(type => {
+      if (!(type instanceof Y.Array)) return
+      type.forEach(item => {
+        if (idOf(item) !== undefined) item.set('id', createId())
+      })
+    })
+  })
+}
+
+/**
+ * Plain JSON representation of every top-level type of a document.
+ */
+export function docToJSON(doc: Y.Doc): Record<string, any> {
+  const json: Record<string, any> = {}
+  doc.share.forEach((type, key) => {
+    json[key] = type instanceof Y.Text ? type.toString() : type.toJSON()
+  })
+  return json
+}
+
+/**
+ * Yjs client ids and clock ranges contained in an update, without applying it.
+ */
+export function describeUpdate(update: Uint8Array) {
+  const { from, to } = Y.parseUpdateMeta(update)
+  const clocks: Record<string, [number, number]> = {}
+  from.forEach((clock, client) => {
+    clocks[client] = [clock, to.get(client) ?? clock]
+  })
+
+  // Deletions can target structs of other clients
+  const { ds } = Y.decodeUpdate(update)
+  const clientIds = new Set([...from.keys(), ...ds.clients.keys()])
+
+  return { clientIds: Array.from(clientIds).sort((a, b) => a - b), clocks }
+}
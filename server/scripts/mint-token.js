@@ -0,0 +1,56 @@
+#!/usr/bin/env node
+
+/**
+ * Access Token Minting
+ *
+ * Signs an HS256 access token with SUPABASE_JWT_SECRET, shaped like the tokens
+ * Supabase Auth issues, to connect to a local server without signing in.
+ *
+ * Usage:
+ *   node scripts/mint-token.js [--sub <uuid>] [--email <email>] [--role authenticated]
+ *                              [--expires <seconds>] [--secret <secret>]
+ *
+ * The token is printed alone on stdout, so it can be captured and passed as the
+ * `token` of a HocuspocusProvider:
+ *   TOKEN=$(npm run --silent token:mint -- --email dev@example.com)
+ */
+
+import dotenv from 'dotenv'
+import { createHmac, randomUUID } from 'crypto'
+import { fileURLToPath } from 'url'
+import { dirname, join } from 'path'
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = dirname(__filename)
+
+dotenv.config({ path: join(__dirname, '..', '.env') })
+
+function option(name, fallback) {
+  const index = process.argv.indexOf(`--${name}`)
+  return index !== -1 && process.argv[index + 1] !== undefined ? process.argv[index + 1] : fallback
+}
+
+const SECRET = option('secret', process.env.SUPABASE_JWT_SECRET || '')
+if (!SECRET) {
+  console.error('\x1b[31m✗\x1b[0m No secret: set SUPABASE_JWT_SECRET in .env or pass --secret')
+  process.exit(1)
+}
+
+const now = Math.floor(Date.now() / 1000)
+const email = option('email', undefined)
+const claims = {
+  sub: option('sub', randomUUID()),
+  ...(email ? { email } : {}),
+  role: option('role', 'authenticated'),
+  aud: process.env.SUPABASE_JWT_AUDIENCE || 'authenticated',
+  ...(process.env.SUPABASE_JWT_ISSUER ? { iss: process.env.SUPABASE_JWT_ISSUER } : {}),
+  iat: now,
+  exp: now + parseInt(option('expires', '3600')),
+}
+
+const encode = value => Buffer.from(JSON.stringify(value)).toString('base64url')
+const signed = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}`
+const signature = createHmac('sha256', SECRET).update(signed).digest('base64url')
+
+console.error(`\x1b[36mℹ\x1b[0m Token for ${claims.email || claims.sub}, expires ${new Date(claims.exp * 1000).toISOString()}`)
+console.log(`${signed}.${signature}`)
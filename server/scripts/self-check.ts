@@ -0,0 +1,154 @@
+/**
+ * Self Check
+ *
+ * Runs the services against the in-memory storage adapter and asserts behaviour
+ * that is easy to break without noticing. No server, database or network needed.
+ *
+ * Usage:
+ *   npm run check
+ */
+
+import assert from 'assert/strict'
+import { KeyObject, generateKeyPairSync, sign } from 'crypto'
+
+// Before the config is loaded by the imports below
+process.env.STORAGE_ADAPTER = 'memory'
+process.env.SUPABASE_JWT_SECRET ??= 'self-check-secret'
+
+const { Hocuspocus } = await import('@hocuspocus/server')
+const { StorageDatabase } = await import('../extensions/storage-db.js')
+const { UpdateTracker } = await import('../extensions/update-tracker.js')
+const { ValidationGate } = await import('../extensions/validation-gate.js')
+const { createBranch } = await import('../services/branches.js')
+const { addDrawable, createEntity } = await import('../services/entities.js')
+const { forkEntity } = await import('../services/forks.js')
+const { reconstructEntity } = await import('../services/history.js')
+const { docToJSON } = await import('../lib/ydoc.js')
+const { DeltaWriteBuffer } = await import('../lib/delta-buffer.js')
+const { JwtError, verifyJwt } = await import('../lib/jwt.js')
+const { getStorage } = await import('../storage/index.js')
+const { SERVICE_USER } = await import('../services/auth.js')
+const Y = await import('yjs')
+
+const instance = new Hocuspocus({ quiet: true, extensions: [StorageDatabase, ValidationGate, UpdateTracker] })
+
+const checks: [string, () => Promise<void>][] = []
+const check = (name: string, run: () => Promise<void>) => checks.push([name, run])
+
+async function reconstructedContent(entityId: string) {
+  const { doc } = await reconstructEntity(entityId, {})
+  try {
+    return docToJSON(doc)
+  } finally {
+    doc.destroy()
+  }
+}
+
+const rectangle = (id: string) => ({ id, type: 'rectangle', x: 0, y: 0, width: 10, height: 10, fill: '#000000' })
+
+check('reconstructing a new entity returns its creation content', async () => {
+  const entity = await createEntity(instance, { title: 'Roadmap', content: { drawables: [rectangle('first')] } })
+  assert.deepEqual(await reconstructedContent(entity.id), entity.content)
+
+  await addDrawable(instance, entity.id, rectangle('second'))
+  const content = await reconstructedContent(entity.id)
+  assert.equal(content.name, 'Roadmap')
+  assert.deepEqual(content.drawables.map((drawable: any) => drawable.id), ['first', 'second'])
+})
+
+check('reconstructing a fork or branch returns the content it was copied from', async () => {
+  const entity = await createEntity(instance, { title: 'Source', content: { drawables: [rectangle('copied')] } })
+
+  const fork = await forkEntity(instance, entity.id, { title: 'Fork' })
+  assert.deepEqual((await reconstructedContent(fork.id)).drawables, entity.content.drawables)
+
+  const branch = await createBranch(instance, entity.id, 'Experiment')
+  assert.deepEqual(await reconstructedContent(branch.id), entity.content)
+})
+
+check('the service key creates entities owned by ownerId, never by itself', async () => {
+  const ownerId = '00000000-0000-4000-8000-000000000001'
+  const owned = await createEntity(instance, { title: 'Owned', ownerId }, SERVICE_USER)
+  assert.deepEqual((await getStorage().listEntityMembers(owned.id)).map(({ userId, role }) => [userId, role]), [[ownerId, 'owner']])
+
+  const unowned = await createEntity(instance, { title: 'Unowned' }, SERVICE_USER)
+  assert.deepEqual(await getStorage().listEntityMembers(unowned.id), [])
+
+  await assert.rejects(createEntity(instance, { ownerId: 'service' }, SERVICE_USER), { name: 'ValidationError' })
+})
+
+check('a token signed for another key type is refused with a JwtError (401)', async () => {
+  const rsa = generateKeyPairSync('rsa', { modulusLength: 2048 })
+  const ec = generateKeyPairSync('ec', { namedCurve: 'P-256' })
+  const ed = generateKeyPairSync('ed25519')
+
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url')
+  const token = (alg: string, privateKey: KeyObject) => {
+    const signed = `${encode({ alg, kid: 'k' })}.${encode({ sub: 'someone', exp: Math.floor(Date.now() / 1000) + 60 })}`
+    return `${signed}.${sign('sha256', Buffer.from(signed), privateKey).toString('base64url')}`
+  }
+
+  // The JWKS has a key of another type under the kid of the token
+  for (const [alg, privateKey, publicKey] of [
+    ['RS256', rsa.privateKey, ec.publicKey],
+    ['ES256', ec.privateKey, rsa.publicKey],
+    ['RS256', rsa.privateKey, ed.publicKey],
+  ] as const) {
+    await assert.rejects(verifyJwt(token(alg, privateKey), { getPublicKey: async () => publicKey }), JwtError)
+  }
+})
+
+check('the delta buffer holds messages while it is over its limit', async () => {
+  const buffer = new DeltaWriteBuffer({
+    windowMs: 0,
+    maxUpdates: 500,
+    maxBytes: 262144,
+    earlyFlushBytes: 0,
+    maxBufferedBytes: 1,
+    slowWriteMs: 1000,
+  })
+
+  // A database that doesn't answer until told to
+  const storage = getStorage()
+  const appendDelta = storage.appendDelta
+  let answer!: () => void
+  const answered = new Promise<void>(resolve => (answer = resolve))
+  storage.appendDelta = async delta => {
+    await answered
+    return appendDelta.call(storage, delta)
+  }
+
+  try {
+    const doc = new Y.Doc()
+    doc.getMap('content').set('name', 'held')
+    buffer.add({ entityId: 'held', entityType: 'document', update: Y.encodeStateAsUpdate(doc), userId: null, origin: 'server' })
+
+    let released = false
+    const waiting = buffer.waitForCapacity().then(() => (released = true))
+    await new Promise(resolve => setTimeout(resolve, 50))
+    assert.equal(released, false)
+    assert.equal(buffer.getMetrics().throttled, true)
+    assert.equal(buffer.getMetrics().heldMessages, 1)
+
+    answer()
+    await waiting
+    assert.equal(buffer.getMetrics().heldMessages, 0)
+    assert.equal(buffer.getMetrics().throttled, false)
+  } finally {
+    storage.appendDelta = appendDelta
+  }
+})
+
+let failed = 0
+for (const [name, run] of checks) {
+  try {
+    await run()
+    console.log(`✓ ${name}`)
+  } catch (error) {
+    failed++
+    console.error(`✗ ${name}\n`, error)
+  }
+}
+
+await instance.closeConnections()
+process.exit(failed > 0 ? 1 : 0)
@@ -0,0 +1,98 @@
+#!/usr/bin/env node
+
+/**
+ * Webhook Receiver
+ *
+ * Local endpoint for testing webhooks. Prints every delivery and checks its
+ * signature when the secret is given.
+ *
+ * Usage:
+ *   node scripts/webhook-receiver.js [--port 4500] [--secret <secret>] [--fail <n>]
+ *
+ * --fail answers the first n deliveries with a 500 to exercise the retries.
+ *
+ * Register it with (the server needs WEBHOOK_ALLOW_PRIVATE_URLS=true for localhost):
+ *   curl -X POST http://localhost:1234/webhooks -H 'Content-Type: application/json' \
+ *     -H "Authorization: Bearer $SUPABASE_SERVICE_KEY" \
+ *     -d '{"entityType":"document","url":"http://localhost:4500/"}'
+ */
+
+import http from 'http'
+import { createHmac, timingSafeEqual } from 'crypto'
+
+function option(name, fallback) {
+  const index = process.argv.indexOf(`--${name}`)
+  return index !== -1 && process.argv[index + 1] !== undefined ? process.argv[index + 1] : fallback
+}
+
+const PORT = parseInt(option('port', process.env.WEBHOOK_RECEIVER_PORT || '4500'))
+const SECRET = option('secret', process.env.WEBHOOK_SECRET || '')
+// Signatures older than this are rejected as replays
+const TOLERANCE_SECONDS = 300
+let failuresLeft = parseInt(option('fail', '0'))
+
+function log(type, message) {
+  const colors = {
+    success: '\x1b[32m✓\x1b[0m',
+    error: '\x1b[31m✗\x1b[0m',
+    info: '\x1b[36mℹ\x1b[0m'
+  }
+  console.log(`${colors[type]} ${message}`)
+}
+
+/**
+ * Checks a `t=<timestamp>,v1=<hex>` header against the HMAC-SHA256 of "<timestamp>.<body>".
+ */
+function verifySignature(header, body) {
+  const parts = Object.fromEntries(String(header || '').split(',').map(part => part.split('=')))
+  const timestamp = parseInt(parts.t)
+  if (!timestamp || !parts.v1) return 'missing signature'
+  if (Math.abs(Date.now() / 1000 - timestamp) > TOLERANCE_SECONDS) return 'signature expired'
+
+  const expected = createHmac('sha256', SECRET).update(`${timestamp}.${body}`).digest()
+  const received = Buffer.from(parts.v1, 'hex')
+  if (received.length !== expected.length || !timingSafeEqual(received, expected)) return 'signature mismatch'
+  return null
+}
+
+const server = http.createServer((request, response) => {
+  const chunks = []
+  request.on('data', chunk => chunks.push(chunk))
+  request.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8')
+    const event = request.headers['x-webhook-event']
+    const deliveryId = request.headers['x-webhook-id']
+
+    if (SECRET) {
+      const problem = verifySignature(request.headers['x-webhook-signature'], body)
+      if (problem) {
+        log('error', `${event} ${deliveryId}: ${problem}`)
+        response.writeHead(401)
+        response.end()
+        return
+      }
+    }
+
+    if (failuresLeft > 0) {
+      failuresLeft--
+      log('info', `${event} ${deliveryId}: answering 500 (${failuresLeft} failures left)`)
+      response.writeHead(500)
+      response.end()
+      return
+    }
+
+    log('success', `${event} ${deliveryId}${SECRET ? ' (signature valid)' : ''}`)
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2))
+    } catch {
+      console.log(body)
+    }
+    response.writeHead(204)
+    response.end()
+  })
+})
+
+server.listen(PORT, () => {
+  log('info', `Webhook receiver listening on http://localhost:${PORT}/`)
+  if (!SECRET) log('info', 'No --secret given, signatures are not checked')
+})
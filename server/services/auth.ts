@@ -0,0 +1,95 @@
+import { KeyObject, timingSafeEqual } from 'crypto'
+import { config } from '../config.js'
+import { ForbiddenError, UnauthorizedError } from '../errors.js'
+import { JwtError, importJwks, verifyJwt } from '../lib/jwt.js'
+
+/**
+ * Authentication of Supabase users from their access token. Tokens are verified
+ * locally (see lib/jwt.ts), the auth server is only asked for its public keys.
+ */
+
+export interface AuthUser {
+  id: string
+  email: string | null
+  /** Postgres role of the token, `authenticated` for signed-in users */
+  role: string
+}
+
+/** Caller of the HTTP API with the service key (SUPABASE_SERVICE_KEY), e.g. a backend job */
+export const SERVICE_USER: AuthUser = { id: 'service', email: null, role: 'service_role' }
+
+// The JWKS is refetched when a token has an unknown kid, at most this often
+const JWKS_REFETCH_MS = 60 * 1000
+
+let jwksKeys = config.auth.jwks ? importJwks(config.auth.jwks) : null
+let jwksFetchedAt = 0
+
+async function fetchJwks() {
+  if (!config.auth.jwksUrl || Date.now() - jwksFetchedAt < JWKS_REFETCH_MS) return
+  jwksFetchedAt = Date.now()
+
+  try {
+    const response = await fetch(config.auth.jwksUrl, { signal: AbortSignal.timeout(5000) })
+    if (!response.ok) throw new Error(`HTTP ${response.status}`)
+    jwksKeys = importJwks(await response.json())
+  } catch (error) {
+    console.error(`[Auth] Error fetching JWKS from ${config.auth.jwksUrl}:`, error)
+  }
+}
+
+async function getPublicKey(kid: string | undefined, alg: string): Promise<KeyObject | undefined> {
+  const find = () => jwksKeys?.find(key => (kid ? key.kid === kid : !key.alg || key.alg === alg))?.key
+
+  // Inline keys are never refetched
+  if (!find() && !config.auth.jwks) await fetchJwks()
+  return find()
+}
+
+/**
+ * Verifies an access token and returns its user. Throws an UnauthorizedError
+ * for missing, invalid or expired tokens and for tokens without a user (e.g. the anon key).
+ */
+export async function authenticateToken(token: string | null | undefined): Promise<AuthUser> {
+  if (!token) throw new UnauthorizedError('An access token is required.')
+
+  try {
+    const claims = await verifyJwt(
+      token,
+      { secret: config.auth.jwtSecret, getPublicKey },
+      { audience: config.auth.audience, issuer: config.auth.issuer }
+    )
+    if (typeof claims.sub !== 'string' || !claims.sub) throw new JwtError('Token has no subject.')
+
+    return {
+      id: claims.sub,
+      email: typeof claims.email === 'string' && claims.email ? claims.email : null,
+      role: typeof claims.role === 'string' ? claims.role : 'authenticated',
+    }
+  } catch (error) {
+    if (error instanceof JwtError) throw new UnauthorizedError(error.message)
+    throw error
+  }
+}
+
+export function isServiceKey(token: string) {
+  const key = config.supabase.serviceKey
+  if (!key) return false
+
+  const given = Buffer.from(token)
+  const expected = Buffer.from(key)
+  return given.length === expected.length && timingSafeEqual(given, expected)
+}
+
+export function isAdmin(user: AuthUser) {
+  return user === SERVICE_USER || config.auth.adminUserIds.includes(user.id)
+}
+
+/**
+ * Guards the operator routes that are not tied to an entity: only the service key
+ * and the users of ADMIN_USER_IDS may call them.
+ */
+export function requireAdmin(user: AuthUser | null): AuthUser {
+  if (!user) throw new UnauthorizedError('An access token is required.')
+  if (!isAdmin(user)) throw new ForbiddenError('Only admins can use this route.')
+  return user
+}
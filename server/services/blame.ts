@@ -0,0 +1,109 @@
+import { buildEntityDoc } from 'collaborative-editor-shared'
+import * as Y from 'yjs'
+import { deltaBuffer } from '../lib/delta-buffer.js'
+import { DeltaOrigin } from '../storage/index.js'
+import { getEntityOrThrow } from './documents.js'
+import { forEachDeltaPage } from './history.js'
+
+/**
+ * Per-drawable blame. The deltas of an entity are replayed one by one onto its
+ * compacted state, and every drawable inserted or property changed during a
+ * delta is attributed to the user that sent it.
+ *
+ * Rejected updates and their reverts are replayed without attribution, the
+ * property they touched keeps its previous author.
+ *
+ * History that was compacted is no longer attributable: drawables that already
+ * existed in the compacted state have no `created` attribution, and properties
+ * nobody changed since then are left out.
+ */
+
+export interface Attribution {
+  userId: string | null
+  origin: DeltaOrigin | null
+  deltaId: number
+  at: string
+}
+
+export interface DrawableBlame {
+  created: Attribution | null
+  /** Last change of each property */
+  properties: Record<string, Attribution>
+  lastModified: Attribution | null
+}
+
+const DRAWABLES_FIELD = 'drawables'
+
+function emptyBlame(): DrawableBlame {
+  return { created: null, properties: {}, lastModified: null }
+}
+
+/**
+ * Blame of the current drawables of an entity, by drawable id.
+ * `drawableId` limits the result to one drawable.
+ */
+export async function blameDrawables(entityId: string, drawableId?: string) {
+  const entity = await getEntityOrThrow(entityId)
+  // Recent updates may still be waiting in the write buffer
+  await deltaBuffer.flush(entityId)
+
+  const doc = buildEntityDoc(entity.type, entity.compactedState)
+  const drawables = doc.getArray<Y.Map<any>>(DRAWABLES_FIELD)
+  // Keyed by the Y.Map rather than the id, ids are plain properties and could change
+  const blames = new WeakMap<Y.Map<any>, DrawableBlame>()
+  let current: Attribution | null = null
+
+  const blameOf = (map: Y.Map<any>) => {
+    let blame = blames.get(map)
+    if (!blame) {
+      blame = emptyBlame()
+      blames.set(map, blame)
+    }
+    return blame
+  }
+
+  drawables.observeDeep(events => {
+    if (!current) return
+
+    for (const event of events) {
+      if (event.target === drawables) {
+        // Properties of a newly inserted map don't raise events of their own
+        for (const item of event.changes.added) {
+          for (const value of item.content.getContent()) {
+            if (!(value instanceof Y.Map)) continue
+            const blame = blameOf(value)
+            blame.created = current
+            blame.lastModified = current
+            for (const key of value.keys()) blame.properties[key] = current
+          }
+        }
+      } else if (event.target instanceof Y.Map && event.target.parent === drawables) {
+        const blame = blameOf(event.target)
+        blame.lastModified = current
+        for (const key of event.changes.keys.keys()) blame.properties[key] = current
+      }
+    }
+  })
+
+  try {
+    await forEachDeltaPage(entityId, { afterId: entity.compactedDeltaId ?? undefined }, deltas => {
+      for (const delta of deltas) {
+        current = delta.origin === 'rejected'
+          ? null
+          : { userId: delta.userId, origin: delta.origin, deltaId: delta.id, at: delta.createdAt }
+        Y.applyUpdate(doc, delta.update)
+      }
+    })
+
+    const result: Record<string, DrawableBlame> = {}
+    for (const map of drawables.toArray()) {
+      const id = map.get('id')
+      if (typeof id !== 'string' || (drawableId !== undefined && id !== drawableId)) continue
+      result[id] = blames.get(map) ?? emptyBlame()
+    }
+
+    return { entityId, compactedUntil: entity.compactedUntil, drawables: result }
+  } finally {
+    doc.destroy()
+  }
+}
@@ -0,0 +1,125 @@
+import { Hocuspocus } from '@hocuspocus/server'
+import { buildEntityDoc } from 'collaborative-editor-shared'
+import { randomUUID } from 'crypto'
+import * as Y from 'yjs'
+import { ValidationError } from '../errors.js'
+import { diffContent } from '../lib/diff.js'
+import { webhooks } from '../lib/webhooks.js'
+import { docToJSON } from '../lib/ydoc.js'
+import { AuthUser } from './auth.js'
+import { getEntityOrThrow, readEntityState, storeNewEntity, transactEntity } from './documents.js'
+import { initialEntityMembers } from './members.js'
+
+/**
+ * Draft branches. A branch is an entity that starts as an exact copy of the
+ * Yjs state of its parent, so both share the history up to the branch point.
+ * Its own edits are then the updates the parent is missing, and merging applies
+ * them to the parent as regular Yjs updates (concurrent parent edits are kept).
+ *
+ * The branch records `branch_of`, `branch_name` and the parent state vector it
+ * started from (`branch_state_vector`, base64) in its metadata.
+ */
+
+const toBase64 = (data: Uint8Array) => Buffer.from(data).toString('base64')
+
+const emptyState = () => Y.encodeStateAsUpdate(new Y.Doc())
+
+export async function createBranch(instance: Hocuspocus, parentId: string, name: string, user: AuthUser | null = null) {
+  if (typeof name !== 'string' || !name.trim()) throw new ValidationError('Branch name is required.')
+
+  const { entity: parent, state } = await readEntityState(instance, parentId)
+  if (parent.metadata.branch_of) throw new ValidationError(`Entity ${parentId} is a branch, branches can't be branched.`)
+
+  // The content stays byte for byte the same, any change here would be merged back
+  const branchState = state ?? emptyState()
+  const members = user ? await initialEntityMembers(user, { copyFrom: parentId }) : []
+  const id = randomUUID()
+  const metadata = {
+    ...parent.metadata,
+    branch_of: parentId,
+    branch_name: name.trim(),
+    branch_state_vector: toBase64(Y.encodeStateVectorFromUpdate(branchState)),
+  }
+  await storeNewEntity(id, parent.type, branchState, { metadata, thumbnail: parent.thumbnail ?? undefined }, user, members)
+  await webhooks.entityCreated({ entityId: id, entityType: parent.type, userId: user?.id ?? null })
+
+  return { id, type: parent.type, parentId, name: metadata.branch_name }
+}
+
+async function readBranch(instance: Hocuspocus, branchId: string) {
+  const { entity: branch, state } = await readEntityState(instance, branchId)
+  const parentId = branch.metadata.branch_of
+  if (typeof parentId !== 'string') throw new ValidationError(`Entity ${branchId} is not a branch.`)
+
+  return { branch, parentId, state: state ?? emptyState() }
+}
+
+/**
+ * What merging the branch would change in the parent, and whether the parent
+ * has changes the branch doesn't have yet.
+ */
+export async function diffBranch(instance: Hocuspocus, branchId: string) {
+  const { branch, parentId, state: branchState } = await readBranch(instance, branchId)
+  const { entity: parent, state } = await readEntityState(instance, parentId)
+  const parentState = state ?? emptyState()
+
+  const parentDoc = buildEntityDoc(parent.type, parentState)
+  const mergedDoc = buildEntityDoc(parent.type, parentState)
+  const branchDoc = buildEntityDoc(parent.type, branchState)
+
+  try {
+    const missing = Y.diffUpdate(branchState, Y.encodeStateVector(parentDoc))
+    Y.applyUpdate(mergedDoc, missing)
+
+    const upstream = Y.diffUpdate(parentState, Y.encodeStateVector(branchDoc))
+    return {
+      branchId,
+      parentId,
+      name: branch.metadata.branch_name ?? null,
+      changes: diffContent(docToJSON(parentDoc), docToJSON(mergedDoc)),
+      parentAhead: changesDoc(upstream, branchDoc),
+    }
+  } finally {
+    parentDoc.destroy()
+    mergedDoc.destroy()
+    branchDoc.destroy()
+  }
+}
+
+/**
+ * Whether applying `update` (already diffed against the state vector of `doc`)
+ * changes `doc`. Diffed updates still carry every deletion, so those are
+ * compared with the deletions `doc` already has.
+ */
+function changesDoc(update: Uint8Array, doc: Y.Doc) {
+  const { structs, ds } = Y.decodeUpdate(update)
+  if (structs.length > 0) return true
+
+  const known = Y.createDeleteSetFromStructStore(doc.store)
+  for (const [client, ranges] of ds.clients) {
+    for (const { clock, len } of ranges) {
+      for (let current = clock; current < clock + len; current++) {
+        if (!Y.isDeleted(known, Y.createID(client, current))) return true
+      }
+    }
+  }
+  return false
+}
+
+/**
+ * Applies the updates of the branch that the parent is missing to the live
+ * parent document. Merging again later only applies the newer branch edits.
+ */
+export async function mergeBranch(instance: Hocuspocus, branchId: string, user: AuthUser | null = null) {
+  const { parentId, state: branchState } = await readBranch(instance, branchId)
+  await getEntityOrThrow(parentId)
+
+  let applied = false
+  await transactEntity(instance, parentId, doc => {
+    const missing = Y.diffUpdate(branchState, Y.encodeStateVector(doc))
+    applied = changesDoc(missing, doc)
+    if (applied) Y.applyUpdate(doc, missing)
+  }, { user })
+
+  return { branchId, parentId, merged: applied }
+}
@@ -0,0 +1,84 @@
+import * as Y from 'yjs'
+import { config } from '../config.js'
+import { getStorage } from '../storage/index.js'
+
+/**
+ * Folds deltas of yjs_entity_deltas into the stored state of their entity.
+ * Which deltas may be folded is decided by the retention policies (see retention.ts).
+ */
+
+export interface CompactionResult {
+  merged: number
+  compactedUntil: string | null
+}
+
+/**
+ * Folds deltas of `entityId` created before `watermark` into the stored state
+ * with Y.mergeUpdates, records the watermark and then prunes or archives the merged rows.
+ *
+ * The snapshot write is guarded by `updated_at`, so a concurrent store wins and
+ * the deltas are left in place for the next pass.
+ */
+export async function compactEntityDeltas(
+  entityId: string,
+  watermark: Date,
+  { batchSize = 500, mode = 'prune' }: { batchSize?: number; mode?: 'prune' | 'archive' } = {}
+): Promise<CompactionResult> {
+  const storage = getStorage()
+
+  const entity = await storage.loadEntity(entityId)
+  if (!entity) {
+    console.warn(`[DeltaCompactor] Skipping ${entityId}: entity does not exist.`)
+    return { merged: 0, compactedUntil: null }
+  }
+
+  const deltas = await storage.listDeltas(entityId, { before: watermark, limit: batchSize })
+  if (deltas.length === 0) return { merged: 0, compactedUntil: null }
+
+  const updates = deltas.map(delta => delta.update)
+  const merged = Y.mergeUpdates(entity.state ? [entity.state, ...updates] : updates)
+  // The compacted state only contains compacted deltas, so history after it can be replayed
+  const compactedState = Y.mergeUpdates(entity.compactedState ? [entity.compactedState, ...updates] : updates)
+  const lastDelta = deltas[deltas.length - 1]
+
+  const written = await storage.writeCompactedState(entityId, merged, {
+    compactedState,
+    compactedUntil: lastDelta.createdAt,
+    compactedDeltaId: lastDelta.id,
+    expectedUpdatedAt: entity.updatedAt,
+  })
+  if (!written) {
+    console.warn(`[DeltaCompactor] Entity ${entityId} changed during compaction, retrying next pass.`)
+    return { merged: 0, compactedUntil: null }
+  }
+
+  await storage.removeDeltas(
+    entityId,
+    { before: watermark, upToId: lastDelta.id },
+    { archive: mode === 'archive' }
+  )
+
+  return { merged: deltas.length, compactedUntil: lastDelta.createdAt }
+}
+
+/**
+ * Compacts the oldest deltas of an entity created before `watermark`, in
+ * batches, at most `maxDeltas` of them. Returns how many were compacted.
+ */
+export async function compactDeltas(entityId: string, watermark: Date, maxDeltas = Infinity) {
+  const { batchSize, mode } = config.compaction
+  let total = 0
+
+  // Keep merging batches until the entity has no deltas left below the watermark
+  while (total < maxDeltas) {
+    const limit = Math.min(batchSize, maxDeltas - total)
+    const { merged } = await compactEntityDeltas(entityId, watermark, { batchSize: limit, mode })
+    total += merged
+    if (merged < limit) break
+  }
+
+  if (total > 0) {
+    console.log(`[DeltaCompactor] Compacted ${total} deltas of ${entityId} (${mode})`)
+  }
+  return total
+}
@@ -0,0 +1,80 @@
+import { Hocuspocus } from '@hocuspocus/server'
+import { buildEntityDoc } from 'collaborative-editor-shared'
+import * as Y from 'yjs'
+import { NotFoundError, ValidationError } from '../errors.js'
+import { diffContent } from '../lib/diff.js'
+import { docToJSON } from '../lib/ydoc.js'
+import { getStorage } from '../storage/index.js'
+import { getEntityOrThrow, readEntityDoc } from './documents.js'
+import { reconstructEntityAt } from './history.js'
+
+/**
+ * Builds the content of an entity at the point `ref` names:
+ *
+ *   current           the live document (or the stored state when not loaded)
+ *   version:<id>      a named version of the entity
+ *   at:<ISO time>     the entity as it was at that time (see history.ts)
+ *   branch:<id>       a draft branch of the entity, or the parent of a branch
+ */
+async function resolveSnapshot(instance: Hocuspocus, entityId: string, ref: string): Promise<Y.Doc> {
+  const separator = ref.indexOf(':')
+  const kind = separator === -1 ? ref : ref.slice(0, separator)
+  const value = separator === -1 ? '' : ref.slice(separator + 1)
+
+  switch (kind) {
+    case 'current':
+      return (await readEntityDoc(instance, entityId)).doc
+
+    case 'version': {
+      const entity = await getEntityOrThrow(entityId)
+      const version = await getStorage().loadVersion(entityId, value)
+      if (!version) throw new NotFoundError(`Version ${value} of ${entityId} does not exist.`)
+      return buildEntityDoc(entity.type, version.state)
+    }
+
+    case 'at': {
+      const at = new Date(value)
+      if (!value || Number.isNaN(at.getTime())) throw new ValidationError(`Invalid timestamp in "${ref}".`)
+      return (await reconstructEntityAt(entityId, at)).doc
+    }
+
+    case 'branch': {
+      const entity = await getEntityOrThrow(entityId)
+      const { entity: other, doc } = await readEntityDoc(instance, value)
+      if (other.metadata.branch_of !== entityId && entity.metadata.branch_of !== value) {
+        doc.destroy()
+        throw new ValidationError(`Entity ${value} is not a branch of ${entityId}, nor its parent.`)
+      }
+      return doc
+    }
+
+    default:
+      throw new ValidationError(`Unknown snapshot "${ref}", expected current, version:<id>, at:<time> or branch:<id>.`)
+  }
+}
+
+/**
+ * Content of an entity at two points and the changes between them, e.g. to
+ * review what changed since a version.
+ */
+export async function diffSnapshots(instance: Hocuspocus, entityId: string, from: string, to = 'current') {
+  const fromDoc = await resolveSnapshot(instance, entityId, from)
+
+  try {
+    const toDoc = await resolveSnapshot(instance, entityId, to)
+    try {
+      const fromContent = docToJSON(fromDoc)
+      const toContent = docToJSON(toDoc)
+      return {
+        entityId,
+        from: { ref: from, content: fromContent },
+        to: { ref: to, content: toContent },
+        changes: diffContent(fromContent, toContent),
+      }
+    } finally {
+      toDoc.destroy()
+    }
+  } finally {
+    fromDoc.destroy()
+  }
+}
@@ -0,0 +1,94 @@
+import { Hocuspocus } from '@hocuspocus/server'
+import * as Y from 'yjs'
+import { buildEntityDoc } from 'collaborative-editor-shared'
+import { EntityDeletedError, NotFoundError } from '../errors.js'
+import { serverOrigin } from '../lib/origin.js'
+import { describeUpdate } from '../lib/ydoc.js'
+import { DeltaOrigin, EntityProjection, InitialEntityMember, StoredEntity, getStorage } from '../storage/index.js'
+import { AuthUser } from './auth.js'
+
+/**
+ * Helpers for reading and changing entities from server code (HTTP API,
+ * versions, ...) while keeping live Hocuspocus documents authoritative.
+ */
+
+export async function getEntityOrThrow(entityId: string) {
+  const entity = await getStorage().loadEntity(entityId)
+  if (!entity) throw new NotFoundError(`Entity ${entityId} does not exist.`)
+  assertNotDeleted(entity)
+  return entity
+}
+
+/**
+ * Entities in the trash can't be opened, read or changed until they are restored.
+ */
+export function assertNotDeleted(entity: Pick<StoredEntity, 'id' | 'deletedAt' | 'purgedAt'>) {
+  if (entity.purgedAt) throw new EntityDeletedError(`Entity ${entity.id} was permanently deleted.`)
+  if (entity.deletedAt) throw new EntityDeletedError(`Entity ${entity.id} is in the trash.`)
+}
+
+/**
+ * Stores a new entity (created, forked or branched) with its members and logs its
+ * initial state as its first delta, so reconstruction, playback and blame start
+ * from the content it was created with rather than from an empty document.
+ */
+export async function storeNewEntity(
+  entityId: string,
+  entityType: string,
+  state: Uint8Array,
+  projection: EntityProjection,
+  user: AuthUser | null,
+  members: InitialEntityMember[] = []
+) {
+  await getStorage().createEntity(entityId, entityType, state, projection, members)
+
+  const { clientIds, clocks } = describeUpdate(state)
+  if (clientIds.length === 0) return
+  await getStorage().appendDelta({ entityId, entityType, update: state, userId: user?.id ?? null, origin: 'http', clientIds, clocks })
+}
+
+/**
+ * Returns the current state of an entity, preferring the in-memory document
+ * when it is loaded because it can be ahead of the stored state.
+ */
+export async function readEntityState(instance: Hocuspocus, entityId: string) {
+  const entity = await getEntityOrThrow(entityId)
+  const loaded = instance.documents.get(entityId)
+  const state = loaded ? Y.encodeStateAsUpdate(loaded) : entity.state
+
+  return { entity, state }
+}
+
+/**
+ * Builds a detached Y.Doc with the current content of an entity.
+ */
+export async function readEntityDoc(instance: Hocuspocus, entityId: string) {
+  const { entity, state } = await readEntityState(instance, entityId)
+  return { entity, doc: buildEntityDoc(entity.type, state) }
+}
+
+/**
+ * Applies `transaction` to the live document of an entity through a Hocuspocus
+ * direct connection. Connected clients receive the change immediately, and it is
+ * tracked and persisted like any other update.
+ */
+export async function transactEntity(
+  instance: Hocuspocus,
+  entityId: string,
+  transaction: (doc: Y.Doc, entity: StoredEntity) => void,
+  context: Record<string, any> = {},
+  transport: DeltaOrigin = 'server'
+) {
+  const entity = await getEntityOrThrow(entityId)
+  const connectionContext = { entityType: entity.type, ...context }
+  const connection = await instance.openDirectConnection(entityId, connectionContext)
+
+  try {
+    await connection.transact(document => {
+      // The origin carries the context to onChange hooks (e.g. UpdateTracker)
+      document.transact(() => transaction(document, entity), serverOrigin(connectionContext, transport))
+    })
+  } finally {
+    await connection.disconnect()
+  }
+}
@@ -0,0 +1,245 @@
+import { Hocuspocus } from '@hocuspocus/server'
+import {
+  Drawable,
+  buildEntityDoc,
+  describeValidationError,
+  drawableSchema,
+  entityConfigs,
+  isEntityType,
+  projectEntityMetadata,
+  readEntityContent,
+  validateEntityDoc,
+  writeProjectedFields,
+} from 'collaborative-editor-shared'
+import { randomUUID } from 'crypto'
+import * as Y from 'yjs'
+import { z } from 'zod'
+import { ConflictError, NotFoundError, ValidationError } from '../errors.js'
+import { renderEntityThumbnail } from '../lib/thumbnail.js'
+import { webhooks } from '../lib/webhooks.js'
+import { replaceDocumentContent } from '../lib/ydoc.js'
+import { StoredEntity, getStorage } from '../storage/index.js'
+import { AuthUser } from './auth.js'
+import { readEntityDoc, readEntityState, storeNewEntity, transactEntity } from './documents.js'
+import { initialEntityMembers } from './members.js'
+
+/**
+ * Reading and writing entities as JSON for the REST API. Writes go through the
+ * live Hocuspocus document (see transactEntity), so connected editors see them
+ * immediately and they are tracked with the `http` origin.
+ */
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const DRAWABLES_FIELD = 'drawables'
+
+function assertValid(entityType: string, doc: Y.Doc) {
+  const validation = validateEntityDoc(entityType, doc)
+  if (!validation.success) {
+    throw new ValidationError(`Invalid ${entityType}: ${describeValidationError(validation.error).join('; ')}`)
+  }
+}
+
+/**
+ * Overwrites top-level fields of `doc` with plain JSON values: strings for Y.Text
+ * fields, arrays of objects for Y.Array fields (stored as Y.Maps).
+ */
+function writeContent(doc: Y.Doc, content: Record<string, any>) {
+  doc.transact(() => {
+    for (const [key, value] of Object.entries(content)) {
+      const field = doc.share.get(key)
+
+      if (field instanceof Y.Text && typeof value === 'string') {
+        field.delete(0, field.length)
+        field.insert(0, value)
+      } else if (field instanceof Y.Array && Array.isArray(value)) {
+        field.delete(0, field.length)
+        field.insert(0, value.map(item => (item && typeof item === 'object' ? new Y.Map(Object.entries(item)) : item)))
+      } else {
+        throw new ValidationError(field ? `Field "${key}" has the wrong type.` : `Unknown field "${key}".`)
+      }
+    }
+  })
+}
+
+function assertContentObject(content: unknown): asserts content is Record<string, any> {
+  if (!content || typeof content !== 'object' || Array.isArray(content)) {
+    throw new ValidationError('"content" must be an object.')
+  }
+}
+
+export interface NewEntity {
+  /** Entity type from `entityConfigs`, `document` by default */
+  type?: string
+  /** Generated when missing */
+  id?: string
+  title?: string
+  /** Initial top-level fields, e.g. `{ drawables: [...] }` */
+  content?: Record<string, any>
+  /** Owner of an entity created with the service key, see initialEntityMembers */
+  ownerId?: string
+}
+
+/**
+ * Creates an entity with validated initial content, owned by `user`.
+ */
+export async function createEntity(instance: Hocuspocus, { type = 'document', id = randomUUID(), title, content = {}, ownerId }: NewEntity, user: AuthUser | null = null) {
+  if (!isEntityType(type)) throw new ValidationError(`Unknown entity type "${type}".`)
+  if (typeof id !== 'string' || !UUID_PATTERN.test(id)) throw new ValidationError('"id" must be a UUID.')
+  if (title !== undefined && typeof title !== 'string') throw new ValidationError('"title" must be a string.')
+  assertContentObject(content)
+
+  if (await getStorage().loadEntityHeader(id)) throw new ConflictError(`Entity ${id} already exists.`)
+  const members = user ? await initialEntityMembers(user, { ownerId }) : []
+
+  const doc = buildEntityDoc(type)
+  try {
+    writeContent(doc, content)
+    // The title is projected from the document, so it is written as content
+    if (title?.trim()) writeProjectedFields(type, doc, { title: title.trim() })
+    assertValid(type, doc)
+
+    await storeNewEntity(id, type, Y.encodeStateAsUpdate(doc), {
+      metadata: projectEntityMetadata(type, doc),
+      thumbnail: renderEntityThumbnail(doc) ?? undefined,
+    }, user, members)
+    await webhooks.entityCreated({ entityId: id, entityType: type, userId: user?.id ?? null })
+    return readEntity(instance, id)
+  } finally {
+    doc.destroy()
+  }
+}
+
+/**
+ * The current content of an entity as JSON, validated against its schema.
+ */
+export async function readEntity(instance: Hocuspocus, entityId: string) {
+  const { entity, doc } = await readEntityDoc(instance, entityId)
+
+  try {
+    if (!isEntityType(entity.type)) throw new ValidationError(`Unknown entity type "${entity.type}".`)
+    assertValid(entity.type, doc)
+
+    return {
+      id: entity.id,
+      type: entity.type,
+      metadata: entity.metadata,
+      createdAt: entity.createdAt,
+      updatedAt: entity.updatedAt,
+      content: readEntityContent(doc, entity.type),
+    }
+  } finally {
+    doc.destroy()
+  }
+}
+
+/**
+ * The current Yjs state of an entity as a binary update. With `stateVector`
+ * only what the caller is missing is returned.
+ */
+export async function readEntityUpdate(instance: Hocuspocus, entityId: string, stateVector?: Uint8Array) {
+  const { entity, state } = await readEntityState(instance, entityId)
+  const doc = buildEntityDoc(entity.type, state)
+  try {
+    return { entity, update: Y.encodeStateAsUpdate(doc, stateVector) }
+  } finally {
+    doc.destroy()
+  }
+}
+
+/**
+ * Replaces top-level fields of an entity, e.g. `{ name: "Roadmap" }`. Arrays of
+ * items with ids are reconciled by id, so unchanged items keep concurrent edits.
+ */
+export async function updateEntityContent(instance: Hocuspocus, entityId: string, content: Record<string, any>, user: AuthUser | null = null) {
+  assertContentObject(content)
+
+  await transactEntity(instance, entityId, (doc, entity) => {
+    const draft = buildEntityDoc(entity.type, Y.encodeStateAsUpdate(doc))
+    try {
+      writeContent(draft, content)
+      assertValid(entity.type, draft)
+      replaceDocumentContent(doc, draft)
+    } finally {
+      draft.destroy()
+    }
+  }, { user }, 'http')
+
+  return readEntity(instance, entityId)
+}
+
+function getDrawables(doc: Y.Doc, entity: StoredEntity) {
+  const shape = isEntityType(entity.type) ? (entityConfigs[entity.type].schema as z.ZodObject<any>).shape : {}
+  if (!(DRAWABLES_FIELD in shape)) {
+    throw new ValidationError(`Entities of type "${entity.type}" have no drawables.`)
+  }
+  return doc.getArray<Y.Map<any>>(DRAWABLES_FIELD)
+}
+
+function findDrawable(drawables: Y.Array<Y.Map<any>>, entityId: string, drawableId: string) {
+  const index = drawables.toArray().findIndex(item => item instanceof Y.Map && item.get('id') === drawableId)
+  if (index === -1) throw new NotFoundError(`Drawable ${drawableId} does not exist in entity ${entityId}.`)
+  return { index, item: drawables.get(index) }
+}
+
+function parseDrawable(value: unknown) {
+  const parsed = drawableSchema.safeParse(value)
+  if (!parsed.success) throw new ValidationError(`Invalid drawable: ${describeValidationError(parsed.error).join('; ')}`)
+  return parsed.data
+}
+
+/**
+ * Adds a drawable at `index` (on top of the others by default). The id is
+ * generated when missing.
+ */
+export async function addDrawable(instance: Hocuspocus, entityId: string, input: Record<string, any>, index?: number, user: AuthUser | null = null) {
+  if (!input || typeof input !== 'object') throw new ValidationError('The drawable must be an object.')
+  if (index !== undefined && (!Number.isInteger(index) || index < 0)) throw new ValidationError('"index" must be a positive integer.')
+
+  const drawable = parseDrawable({ ...input, id: input.id ?? randomUUID() })
+
+  await transactEntity(instance, entityId, (doc, entity) => {
+    const drawables = getDrawables(doc, entity)
+    if (drawables.toArray().some(item => item instanceof Y.Map && item.get('id') === drawable.id)) {
+      throw new ConflictError(`Drawable ${drawable.id} already exists in entity ${entityId}.`)
+    }
+    drawables.insert(Math.min(index ?? drawables.length, drawables.length), [new Y.Map(Object.entries(drawable))])
+  }, { user }, 'http')
+
+  return drawable
+}
+
+/**
+ * Changes properties of a drawable. Only the properties that differ are written,
+ * so concurrent edits of other properties are kept.
+ */
+export async function updateDrawable(instance: Hocuspocus, entityId: string, drawableId: string, changes: Record<string, any>, user: AuthUser | null = null) {
+  if (!changes || typeof changes !== 'object') throw new ValidationError('The changes must be an object.')
+  if (changes.id !== undefined && changes.id !== drawableId) throw new ValidationError('The id of a drawable can\'t be changed.')
+
+  let updated: Drawable | undefined
+
+  await transactEntity(instance, entityId, (doc, entity) => {
+    const { item } = findDrawable(getDrawables(doc, entity), entityId, drawableId)
+    const current = item.toJSON()
+    if (changes.type !== undefined && changes.type !== current.type) {
+      throw new ValidationError('The type of a drawable can\'t be changed.')
+    }
+
+    updated = parseDrawable({ ...current, ...changes })
+    for (const [key, value] of Object.entries(updated)) {
+      if (item.get(key) !== value) item.set(key, value)
+    }
+  }, { user }, 'http')
+
+  return updated!
+}
+
+export async function deleteDrawable(instance: Hocuspocus, entityId: string, drawableId: string, user: AuthUser | null = null) {
+  await transactEntity(instance, entityId, (doc, entity) => {
+    const drawables = getDrawables(doc, entity)
+    drawables.delete(findDrawable(drawables, entityId, drawableId).index, 1)
+  }, { user }, 'http')
+
+  return { entityId, drawableId, deleted: true }
+}
@@ -0,0 +1,54 @@
+import { Hocuspocus } from '@hocuspocus/server'
+import { buildEntityDoc, projectEntityMetadata, writeProjectedFields } from 'collaborative-editor-shared'
+import { randomUUID } from 'crypto'
+import * as Y from 'yjs'
+import { ValidationError } from '../errors.js'
+import { renderEntityThumbnail } from '../lib/thumbnail.js'
+import { webhooks } from '../lib/webhooks.js'
+import { regenerateItemIds } from '../lib/ydoc.js'
+import { AuthUser } from './auth.js'
+import { readEntityState, storeNewEntity } from './documents.js'
+import { initialEntityMembers } from './members.js'
+
+export interface ForkOptions {
+  /** Title of the copy, "Copy of <source title>" when empty */
+  title?: string
+  /** Give the drawables (and other items with an id) of the copy new ids */
+  newIds?: boolean
+  /** Owner of a copy made with the service key, see initialEntityMembers */
+  ownerId?: string
+}
+
+/**
+ * Creates a new entity whose content is a copy of the current content of
+ * `sourceId` (the live document when loaded). The source is recorded in
+ * `metadata.forked_from`.
+ */
+export async function forkEntity(instance: Hocuspocus, sourceId: string, { title, newIds = false, ownerId }: ForkOptions = {}, user: AuthUser | null = null) {
+  if (title !== undefined && typeof title !== 'string') throw new ValidationError('"title" must be a string.')
+  const members = user ? await initialEntityMembers(user, { ownerId }) : []
+
+  const { entity, state } = await readEntityState(instance, sourceId)
+  const doc = buildEntityDoc(entity.type, state)
+
+  try {
+    const sourceTitle = projectEntityMetadata(entity.type, doc).title ?? entity.metadata.title
+    const forkTitle = title?.trim() || `Copy of ${sourceTitle || 'Untitled Document'}`
+
+    // The title is projected from the document, so the copy gets it as content
+    writeProjectedFields(entity.type, doc, { title: forkTitle })
+    if (newIds) regenerateItemIds(doc, randomUUID)
+
+    const id = randomUUID()
+    const metadata = { ...projectEntityMetadata(entity.type, doc), title: forkTitle, forked_from: sourceId }
+    await storeNewEntity(id, entity.type, Y.encodeStateAsUpdate(doc), {
+      metadata,
+      thumbnail: renderEntityThumbnail(doc) ?? undefined,
+    }, user, members)
+    await webhooks.entityCreated({ entityId: id, entityType: entity.type, userId: user?.id ?? null })
+
+    return { id, type: entity.type, title: forkTitle, forkedFrom: sourceId }
+  } finally {
+    doc.destroy()
+  }
+}
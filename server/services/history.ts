@@ -0,0 +1,121 @@
+import { Hocuspocus } from '@hocuspocus/server'
+import * as Y from 'yjs'
+import { buildEntityDoc } from 'collaborative-editor-shared'
+import { ValidationError } from '../errors.js'
+import { deltaBuffer } from '../lib/delta-buffer.js'
+import { replaceDocumentContent } from '../lib/ydoc.js'
+import { StoredDelta, getStorage } from '../storage/index.js'
+import { AuthUser } from './auth.js'
+import { getEntityOrThrow, transactEntity } from './documents.js'
+
+const DELTA_PAGE_SIZE = 1000
+
+/**
+ * Calls `callback` with the deltas of an entity in id order, one page at a time,
+ * so long histories never have to be loaded at once.
+ */
+export async function forEachDeltaPage(
+  entityId: string,
+  { before, afterId }: { before?: Date; afterId?: number },
+  callback: (deltas: StoredDelta[]) => void | Promise<void>
+) {
+  let cursor = afterId
+
+  while (true) {
+    const deltas = await getStorage().listDeltas(entityId, { before, afterId: cursor, limit: DELTA_PAGE_SIZE })
+    if (deltas.length > 0) await callback(deltas)
+    if (deltas.length < DELTA_PAGE_SIZE) break
+    cursor = deltas[deltas.length - 1].id
+  }
+}
+
+export interface ReconstructionPoint {
+  /** Include deltas created up to (and including) this time */
+  at?: Date
+  /** Include deltas up to (and including) this delta id */
+  upToDeltaId?: number
+}
+
+/**
+ * Rebuilds an entity as it was at a point in its history by replaying the
+ * tracked deltas up to that point onto the last compacted state.
+ *
+ * History that was already compacted is merged into a single state, so
+ * reconstruction is only possible after the compaction watermark.
+ */
+export async function reconstructEntity(entityId: string, { at, upToDeltaId }: ReconstructionPoint) {
+  if (at && Number.isNaN(at.getTime())) throw new ValidationError('Invalid timestamp.')
+
+  const entity = await getEntityOrThrow(entityId)
+  // Recent updates may still be waiting in the write buffer
+  await deltaBuffer.flush(entityId)
+
+  if (entity.compactedUntil) {
+    const compactedUntil = new Date(entity.compactedUntil)
+    const beforeWatermark = (at && at < compactedUntil)
+      || (upToDeltaId !== undefined && entity.compactedDeltaId !== null && upToDeltaId < entity.compactedDeltaId)
+
+    if (beforeWatermark || !entity.compactedState) {
+      throw new ValidationError(
+        `History of ${entityId} before ${compactedUntil.toISOString()} has been compacted and cannot be reconstructed.`
+      )
+    }
+  }
+
+  const doc = buildEntityDoc(entity.type, entity.compactedState)
+  let deltasApplied = 0
+
+  // `before` is exclusive, include deltas created exactly at `at`
+  const before = at ? new Date(at.getTime() + 1) : undefined
+  await forEachDeltaPage(entityId, { before, afterId: entity.compactedDeltaId ?? undefined }, deltas => {
+    const included = upToDeltaId === undefined ? deltas : deltas.filter(delta => delta.id <= upToDeltaId)
+    if (included.length === 0) return
+
+    Y.applyUpdate(doc, Y.mergeUpdates(included.map(delta => delta.update)))
+    deltasApplied += included.length
+  })
+
+  return { entity, doc, deltasApplied }
+}
+
+/**
+ * Rebuilds an entity as it was at `at`.
+ */
+export async function reconstructEntityAt(entityId: string, at: Date) {
+  return reconstructEntity(entityId, { at })
+}
+
+/**
+ * Rewrites the live document to match a point in its history. Like restoring a
+ * version, this is a forward update that every client converges on.
+ */
+export async function restoreEntityTo(instance: Hocuspocus, entityId: string, point: ReconstructionPoint, user: AuthUser | null = null) {
+  const { doc, deltasApplied } = await reconstructEntity(entityId, point)
+
+  await transactEntity(instance, entityId, target => {
+    replaceDocumentContent(target, doc)
+  }, { user })
+
+  return { deltasApplied }
+}
+
+/**
+ * Returns a page of the delta log of an entity, oldest first, together with the
+ * compacted state the deltas apply to (on the first page only).
+ */
+export async function listEntityDeltas(entityId: string, { afterId, limit = DELTA_PAGE_SIZE }: { afterId?: number; limit?: number }) {
+  const entity = await getEntityOrThrow(entityId)
+  if (afterId === undefined) await deltaBuffer.flush(entityId)
+  const pageSize = Math.min(Math.max(limit, 1), DELTA_PAGE_SIZE)
+  const deltas = await getStorage().listDeltas(entityId, {
+    afterId: afterId ?? entity.compactedDeltaId ?? undefined,
+    limit: pageSize,
+  })
+
+  return {
+    entity,
+    baseState: afterId === undefined ? entity.compactedState : undefined,
+    deltas,
+    hasMore: deltas.length === pageSize,
+  }
+}
@@ -0,0 +1,184 @@
+import { Hocuspocus } from '@hocuspocus/server'
+import { EntityRole, encodeServerMessage, entityRoles } from 'collaborative-editor-shared'
+import { ForbiddenError, NotFoundError, UnauthorizedError, ValidationError } from '../errors.js'
+import { InitialEntityMember, StoredEntityMember, getStorage } from '../storage/index.js'
+import { AuthUser, SERVICE_USER, isAdmin } from './auth.js'
+
+/**
+ * Per-entity access control. Members have a role: owners manage members and can
+ * delete the entity, editors change its content, viewers only read it. Users are
+ * matched by id, or by the email of their access token for members invited by email.
+ * Entities without members are not accessible to anybody.
+ */
+
+const ROLE_RANK: Record<EntityRole, number> = { viewer: 1, editor: 2, owner: 3 }
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// Supabase user ids, yjs_entity_members.user_id is a UUID column
+const USER_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+type MemberIdentity = Pick<AuthUser, 'id' | 'email'>
+
+function isMember(member: Pick<StoredEntityMember, 'userId' | 'email'>, user: MemberIdentity) {
+  if (member.userId !== null) return member.userId === user.id
+  return member.email !== null && member.email === user.email?.toLowerCase()
+}
+
+/**
+ * The highest role of the user, who may be both invited by email and added by id.
+ * Admins (and the service key) act as owners of every entity.
+ */
+function roleOf(members: StoredEntityMember[], user: AuthUser): EntityRole | null {
+  if (isAdmin(user)) return 'owner'
+  return members
+    .filter(member => isMember(member, user))
+    .reduce<EntityRole | null>((best, { role }) => (!best || ROLE_RANK[role] > ROLE_RANK[best] ? role : best), null)
+}
+
+export function canEdit(role: EntityRole | null) {
+  return role === 'owner' || role === 'editor'
+}
+
+export async function getEntityRole(entityId: string, user: AuthUser) {
+  return roleOf(await getStorage().listEntityMembers(entityId), user)
+}
+
+export function requireUser(user: AuthUser | null): AuthUser {
+  if (!user) throw new UnauthorizedError('An access token is required.')
+  return user
+}
+
+/**
+ * Throws unless the user has at least the `required` role, returns their role.
+ */
+export async function assertEntityRole(entityId: string, user: AuthUser | null, required: EntityRole) {
+  const role = await getEntityRole(entityId, requireUser(user))
+  if (!role) throw new ForbiddenError(`You are not a member of entity ${entityId}.`)
+  if (ROLE_RANK[role] < ROLE_RANK[required]) {
+    throw new ForbiddenError(`Entity ${entityId} requires the ${required} role, you are ${role === 'editor' ? 'an' : 'a'} ${role}.`)
+  }
+  return role
+}
+
+export interface InitialMembersOptions {
+  /** Owner chosen by the service key, which is no user and can't own the entity itself */
+  ownerId?: unknown
+  /** Entity whose members are copied, e.g. the document of a branch */
+  copyFrom?: string
+}
+
+/**
+ * Members of an entity the user creates, stored together with it: the user as
+ * owner, and the members of `copyFrom`. The service key only names an owner with
+ * `ownerId`; without one the entity has no owner and only admins reach it.
+ */
+export async function initialEntityMembers(user: AuthUser, { ownerId, copyFrom }: InitialMembersOptions = {}) {
+  let owner: MemberIdentity | null = user
+  if (user === SERVICE_USER) {
+    if (ownerId !== undefined && (typeof ownerId !== 'string' || !USER_ID_PATTERN.test(ownerId))) {
+      throw new ValidationError('"ownerId" must be a user id (UUID).')
+    }
+    owner = typeof ownerId === 'string' ? { id: ownerId, email: null } : null
+  } else if (ownerId !== undefined) {
+    throw new ValidationError('"ownerId" can only be set with the service key.')
+  }
+
+  const members: InitialEntityMember[] = []
+  if (copyFrom) {
+    for (const { id, entityId, createdAt, ...member } of await getStorage().listEntityMembers(copyFrom)) {
+      if (owner && isMember(member, owner)) continue
+      members.push(member)
+    }
+  }
+  if (owner) members.push({ userId: owner.id, email: owner.email?.toLowerCase() ?? null, role: 'owner' })
+  return members
+}
+
+/**
+ * Members of an entity, with the role of the requesting user.
+ */
+export async function listEntityMembers(entityId: string, user: AuthUser) {
+  const members = await getStorage().listEntityMembers(entityId)
+  return { entityId, role: roleOf(members, user), members }
+}
+
+function assertOwnerRemains(members: StoredEntityMember[]) {
+  if (!members.some(member => member.role === 'owner')) {
+    throw new ValidationError('An entity must keep at least one owner.')
+  }
+}
+
+export interface MemberInput {
+  /** Supabase user id of the member */
+  userId?: string
+  /** Email of the member, matched when they sign in */
+  email?: string
+  role: EntityRole
+}
+
+/**
+ * Adds a member by user id or email, or changes the role of the existing member.
+ */
+export async function setEntityMember(instance: Hocuspocus, entityId: string, { userId, email, role }: MemberInput) {
+  if (!entityRoles.includes(role)) throw new ValidationError(`"role" must be one of ${entityRoles.join(', ')}.`)
+  if ((userId === undefined) === (email === undefined)) throw new ValidationError('Either "userId" or "email" is required.')
+  if (userId !== undefined && (typeof userId !== 'string' || !USER_ID_PATTERN.test(userId))) {
+    throw new ValidationError('"userId" must be a user id (UUID).')
+  }
+  if (email !== undefined && (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim()))) {
+    throw new ValidationError('"email" must be an email address.')
+  }
+
+  const normalizedEmail = email?.trim().toLowerCase() ?? null
+  const members = await getStorage().listEntityMembers(entityId)
+  const existing = members.find(member => (userId ? member.userId === userId : member.userId === null && member.email === normalizedEmail))
+
+  let member: StoredEntityMember
+  if (existing) {
+    assertOwnerRemains(members.map(candidate => (candidate === existing ? { ...candidate, role } : candidate)))
+    await getStorage().updateEntityMemberRole(entityId, existing.id, role)
+    member = { ...existing, role }
+  } else {
+    member = await getStorage().createEntityMember({ entityId, userId: userId ?? null, email: normalizedEmail, role })
+  }
+
+  await applyRolesToConnections(instance, entityId)
+  return member
+}
+
+export async function removeEntityMember(instance: Hocuspocus, entityId: string, memberId: string) {
+  const members = await getStorage().listEntityMembers(entityId)
+  if (!members.some(member => member.id === memberId)) {
+    throw new NotFoundError(`Member ${memberId} does not exist in entity ${entityId}.`)
+  }
+  assertOwnerRemains(members.filter(member => member.id !== memberId))
+
+  await getStorage().deleteEntityMember(entityId, memberId)
+  await applyRolesToConnections(instance, entityId)
+  return { entityId, memberId, removed: true }
+}
+
+/**
+ * Applies member changes to open connections: viewers become read-only and users
+ * who are no longer members stop receiving the document. Every connection whose
+ * role changed is told its new role.
+ */
+async function applyRolesToConnections(instance: Hocuspocus, entityId: string) {
+  const document = instance.documents.get(entityId)
+  if (!document) return
+
+  const members = await getStorage().listEntityMembers(entityId)
+  for (const connection of document.getConnections()) {
+    const user = connection.context?.user
+    if (!user) continue
+
+    const role = roleOf(members, user)
+    if (role === connection.context.role) continue
+
+    connection.context.role = role
+    connection.readOnly = !canEdit(role)
+    connection.sendStateless(encodeServerMessage({ type: 'access', entityId, role }))
+    if (!role) connection.close()
+  }
+}
@@ -0,0 +1,136 @@
+import { Hocuspocus } from '@hocuspocus/server'
+import { entityConfigs, isEntityType } from 'collaborative-editor-shared'
+import { z } from 'zod'
+import * as Y from 'yjs'
+import { EntityDeletedError } from '../errors.js'
+import { DrawableRow, getStorage } from '../storage/index.js'
+import { readEntityDoc } from './documents.js'
+
+/**
+ * Relational projection of drawables into yjs_entity_drawables, for reporting
+ * in SQL without decoding Yjs state. Which array is projected, and the schema
+ * its items must pass, come from `relationalProjection` in the entity config.
+ */
+
+interface RelationalProjection {
+  field: string
+  itemSchema: z.ZodType<{ id: string; type: string }>
+}
+
+const ENTITY_PAGE_SIZE = 100
+
+// Serialized rows last written per entity, so a store only writes what changed
+const projected = new Map<string, Map<string, string>>()
+
+function getRelationalProjection(entityType: string): RelationalProjection | null {
+  if (!isEntityType(entityType)) return null
+  const config: { relationalProjection?: RelationalProjection } = entityConfigs[entityType]
+  return config.relationalProjection ?? null
+}
+
+/**
+ * Rows for the projected array of `doc`, or null when the entity type has no projection.
+ * Items that fail the schema, or repeat an id, are left out.
+ */
+export function buildDrawableRows(entityId: string, entityType: string, doc: Y.Doc): DrawableRow[] | null {
+  const projection = getRelationalProjection(entityType)
+  if (!projection) return null
+
+  const rows: DrawableRow[] = []
+  const seen = new Set<string>()
+
+  doc.getArray(projection.field).toJSON().forEach((item, position) => {
+    const parsed = projection.itemSchema.safeParse(item)
+    if (!parsed.success || seen.has(parsed.data.id)) return
+
+    seen.add(parsed.data.id)
+    rows.push({ entityId, drawableId: parsed.data.id, position, type: parsed.data.type, data: parsed.data })
+  })
+  return rows
+}
+
+const serializeRow = ({ position, type, data }: DrawableRow) => JSON.stringify([position, type, data])
+
+/**
+ * Brings the rows of an entity in line with `doc`, writing only the rows that
+ * changed since the last sync. The first sync of an entity compares with the table.
+ */
+export async function syncDrawableProjection(entityId: string, entityType: string, doc: Y.Doc) {
+  const rows = buildDrawableRows(entityId, entityType, doc)
+  if (!rows) return { upserted: 0, deleted: 0 }
+
+  const storage = getStorage()
+  let previous = projected.get(entityId)
+  if (!previous) {
+    const stored = await storage.listDrawableRows(entityId)
+    previous = new Map(stored.map(row => [row.drawableId, serializeRow(row)]))
+  }
+
+  const current = new Map(rows.map(row => [row.drawableId, serializeRow(row)]))
+  const changed = rows.filter(row => previous!.get(row.drawableId) !== current.get(row.drawableId))
+  const removed = Array.from(previous.keys()).filter(drawableId => !current.has(drawableId))
+
+  try {
+    await storage.upsertDrawableRows(changed)
+    if (removed.length > 0) await storage.deleteDrawableRows(entityId, removed)
+    projected.set(entityId, current)
+  } catch (error) {
+    // The table is in an unknown state, compare with it again next time
+    projected.delete(entityId)
+    throw error
+  }
+
+  return { upserted: changed.length, deleted: removed.length }
+}
+
+export function forgetDrawableProjection(entityId: string) {
+  projected.delete(entityId)
+}
+
+/**
+ * Rewrites all rows of an entity from its current content (the live document
+ * when loaded, yjs_state otherwise).
+ */
+export async function rebuildDrawableProjection(instance: Hocuspocus, entityId: string) {
+  const { entity, doc } = await readEntityDoc(instance, entityId)
+
+  try {
+    const rows = buildDrawableRows(entityId, entity.type, doc) ?? []
+    forgetDrawableProjection(entityId)
+    await getStorage().deleteDrawableRows(entityId)
+    await getStorage().upsertDrawableRows(rows)
+    return rows.length
+  } finally {
+    doc.destroy()
+  }
+}
+
+/**
+ * Rebuilds the rows of every entity whose type has a relational projection.
+ */
+export async function rebuildAllDrawableProjections(instance: Hocuspocus) {
+  const entityTypes = Object.keys(entityConfigs).filter(entityType => getRelationalProjection(entityType))
+  let entities = 0
+  let rows = 0
+
+  for (const type of entityTypes) {
+    let afterId: string | undefined
+
+    while (true) {
+      const entityIds = await getStorage().listEntityIds({ type, afterId, limit: ENTITY_PAGE_SIZE })
+      for (const entityId of entityIds) {
+        try {
+          rows += await rebuildDrawableProjection(instance, entityId)
+          entities++
+        } catch (error) {
+          // Trashed entities keep their rows until they are purged
+          if (!(error instanceof EntityDeletedError)) throw error
+        }
+      }
+      if (entityIds.length < ENTITY_PAGE_SIZE) break
+      afterId = entityIds[entityIds.length - 1]
+    }
+  }
+
+  return { entities, rows }
+}
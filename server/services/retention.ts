@@ -0,0 +1,152 @@
+import { Hocuspocus } from '@hocuspocus/server'
+import { entityConfigs } from 'collaborative-editor-shared'
+import { config } from '../config.js'
+import { RetentionPolicy, formatRetentionPolicy } from '../lib/retention.js'
+import { getStorage } from '../storage/index.js'
+import { compactDeltas } from './compaction.js'
+
+/**
+ * Enforces the delta retention policy of each entity type (see lib/retention.ts).
+ * Deltas a policy no longer keeps are folded into the compacted state, never
+ * deleted on their own, so history reconstruction stays consistent.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Entities with expired deltas are listed in pages of this size
+const ENTITY_PAGE_SIZE = 1000
+
+export function getRetentionPolicy(entityType: string): RetentionPolicy {
+  return config.retention.policies[entityType] ?? config.retention.defaultPolicy
+}
+
+/**
+ * Deltas created before the returned date may be compacted, null when none may.
+ * Deltas younger than COMPACTION_MIN_AGE_MS are always kept.
+ */
+function getRetentionWatermark(policy: RetentionPolicy, now: number) {
+  const minAge = now - config.compaction.minAgeMs
+
+  switch (policy.keep) {
+    case 'forever':
+      return null
+    case 'days':
+      return new Date(Math.min(minAge, now - policy.days * DAY_MS))
+    case 'last':
+    case 'compacted':
+      return new Date(minAge)
+  }
+}
+
+export interface RetentionPlan {
+  entityId: string
+  entityType: string
+  policy: string
+  /** Deltas created before this date are past the retention period */
+  watermark: string | null
+  /** Deltas of the entity in yjs_entity_deltas */
+  deltas: number
+  /** Deltas the policy no longer keeps */
+  expired: number
+}
+
+/**
+ * How many deltas of an entity its retention policy no longer keeps.
+ */
+export async function planEntityRetention(entityId: string, entityType: string, now = Date.now()): Promise<RetentionPlan> {
+  const policy = getRetentionPolicy(entityType)
+  const watermark = getRetentionWatermark(policy, now)
+  const storage = getStorage()
+
+  const deltas = await storage.countDeltas(entityId)
+  let expired = watermark && deltas > 0 ? await storage.countDeltas(entityId, { before: watermark }) : 0
+  if (policy.keep === 'last') expired = Math.min(expired, Math.max(0, deltas - policy.count))
+
+  return {
+    entityId,
+    entityType,
+    policy: formatRetentionPolicy(policy),
+    watermark: watermark?.toISOString() ?? null,
+    deltas,
+    expired,
+  }
+}
+
+/**
+ * Compacts the expired deltas of an entity. The caller makes sure its document
+ * is not loaded, the stored state of a loaded document is still being written.
+ */
+export async function enforceEntityRetention(entityId: string, entityType: string, { dryRun = false } = {}) {
+  const plan = await planEntityRetention(entityId, entityType)
+  if (dryRun || plan.expired === 0 || !plan.watermark) return { ...plan, compacted: 0 }
+
+  const compacted = await compactDeltas(entityId, new Date(plan.watermark), plan.expired)
+  return { ...plan, compacted }
+}
+
+export interface RetentionReport {
+  dryRun: boolean
+  startedAt: string
+  finishedAt: string
+  policies: Record<string, string>
+  /** Entities with expired deltas */
+  entities: (RetentionPlan & { compacted: number })[]
+  /** Entities with expired deltas that were skipped because their document is loaded */
+  skipped: string[]
+  expired: number
+  compacted: number
+}
+
+/**
+ * Applies the retention policies to every entity type. With `dryRun` nothing is
+ * compacted and the report lists what would be.
+ */
+export async function runRetentionPass(instance: Hocuspocus, { dryRun = false } = {}): Promise<RetentionReport> {
+  const startedAt = new Date()
+  const report: RetentionReport = {
+    dryRun,
+    startedAt: startedAt.toISOString(),
+    finishedAt: startedAt.toISOString(),
+    policies: {},
+    entities: [],
+    skipped: [],
+    expired: 0,
+    compacted: 0,
+  }
+
+  for (const entityType of Object.keys(entityConfigs)) {
+    const policy = getRetentionPolicy(entityType)
+    report.policies[entityType] = formatRetentionPolicy(policy)
+
+    const watermark = getRetentionWatermark(policy, startedAt.getTime())
+    if (!watermark) continue
+
+    let after: string | undefined
+    for (;;) {
+      const entityIds = await getStorage().listEntitiesWithDeltasBefore(watermark, ENTITY_PAGE_SIZE, entityType, after)
+      for (const entityId of entityIds) {
+        if (instance.documents.has(entityId)) {
+          report.skipped.push(entityId)
+          continue
+        }
+
+        try {
+          const result = await enforceEntityRetention(entityId, entityType, { dryRun })
+          if (result.expired === 0) continue
+
+          report.entities.push(result)
+          report.expired += result.expired
+          report.compacted += result.compacted
+        } catch (error) {
+          console.error(`[Retention] Error enforcing retention of ${entityId}:`, error)
+        }
+      }
+
+      if (entityIds.length < ENTITY_PAGE_SIZE) break
+      after = entityIds[entityIds.length - 1]
+    }
+  }
+
+  report.finishedAt = new Date().toISOString()
+  return report
+}
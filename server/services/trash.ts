@@ -0,0 +1,78 @@
+import { Hocuspocus } from '@hocuspocus/server'
+import { encodeServerMessage } from 'collaborative-editor-shared'
+import { NotFoundError, ValidationError } from '../errors.js'
+import { deltaBuffer } from '../lib/delta-buffer.js'
+import { webhooks } from '../lib/webhooks.js'
+import { EntityHeader, getStorage } from '../storage/index.js'
+import { AuthUser } from './auth.js'
+import { forgetDrawableProjection } from './projections.js'
+
+/**
+ * Soft delete. Trashing an entity sets deletedAt, after which the server refuses
+ * to open it; restoring clears it again. Purging removes the content, deltas,
+ * versions and projections of a trashed entity and keeps a tombstone row.
+ */
+
+async function getEntityHeaderOrThrow(entityId: string) {
+  const entity = await getStorage().loadEntityHeader(entityId)
+  if (!entity) throw new NotFoundError(`Entity ${entityId} does not exist.`)
+  return entity
+}
+
+/**
+ * Tells the clients of a loaded entity that it was deleted, then closes their
+ * connections. Clients drop their local copy, so it can't be synced back.
+ */
+function disconnectDeletedEntity(instance: Hocuspocus, entityId: string, purged: boolean) {
+  instance.documents.get(entityId)?.broadcastStateless(encodeServerMessage({ type: 'entity-deleted', entityId, purged }))
+  instance.closeConnections(entityId)
+}
+
+const toTrashSummary = ({ id, type, deletedAt, purgedAt }: EntityHeader) => ({ id, type, deletedAt, purgedAt })
+
+/**
+ * Moves an entity to the trash and notifies and disconnects its clients. Trashing an entity
+ * that is already in the trash keeps the original deletedAt.
+ */
+export async function trashEntity(instance: Hocuspocus, entityId: string, user: AuthUser | null = null) {
+  const entity = await getEntityHeaderOrThrow(entityId)
+  if (entity.purgedAt) throw new ValidationError(`Entity ${entityId} was permanently deleted.`)
+
+  const deletedAt = entity.deletedAt ?? new Date().toISOString()
+  if (!entity.deletedAt) {
+    await getStorage().setEntityDeletedAt(entityId, deletedAt)
+    await webhooks.entityDeleted({ entityId, entityType: entity.type, userId: user?.id ?? null, purged: false })
+  }
+
+  // Unloading stores the document one last time, which is skipped for trashed entities
+  disconnectDeletedEntity(instance, entityId, false)
+  return toTrashSummary({ ...entity, deletedAt })
+}
+
+export async function restoreEntity(entityId: string) {
+  const entity = await getEntityHeaderOrThrow(entityId)
+  if (entity.purgedAt) throw new ValidationError(`Entity ${entityId} was permanently deleted and can't be restored.`)
+  if (!entity.deletedAt) throw new ValidationError(`Entity ${entityId} is not in the trash.`)
+
+  await getStorage().setEntityDeletedAt(entityId, null)
+  return toTrashSummary({ ...entity, deletedAt: null })
+}
+
+/**
+ * Permanently removes the content of an entity. Only entities in the trash can
+ * be purged, so a single request can't destroy a document that is in use.
+ */
+export async function purgeEntity(instance: Hocuspocus, entityId: string, user: AuthUser | null = null) {
+  const entity = await getEntityHeaderOrThrow(entityId)
+  if (!entity.deletedAt) throw new ValidationError(`Entity ${entityId} must be moved to the trash before it is deleted.`)
+  if (entity.purgedAt) return toTrashSummary(entity)
+
+  disconnectDeletedEntity(instance, entityId, true)
+  // Pending deltas would otherwise be written after the purge
+  await deltaBuffer.flush(entityId)
+  forgetDrawableProjection(entityId)
+  await getStorage().purgeEntity(entityId)
+  await webhooks.entityDeleted({ entityId, entityType: entity.type, userId: user?.id ?? null, purged: true })
+
+  return toTrashSummary({ ...entity, purgedAt: new Date().toISOString() })
+}
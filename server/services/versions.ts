@@ -0,0 +1,52 @@
+import { Hocuspocus } from '@hocuspocus/server'
+import * as Y from 'yjs'
+import { buildEntityDoc } from 'collaborative-editor-shared'
+import { NotFoundError, ValidationError } from '../errors.js'
+import { replaceDocumentContent } from '../lib/ydoc.js'
+import { getStorage } from '../storage/index.js'
+import { AuthUser } from './auth.js'
+import { readEntityState, transactEntity } from './documents.js'
+
+/**
+ * Stores a named snapshot of the current state of an entity, authored by the
+ * user who created it.
+ */
+export async function createVersion(
+  instance: Hocuspocus,
+  entityId: string,
+  name: string,
+  author: AuthUser | null = null
+) {
+  if (!name?.trim()) throw new ValidationError('Version name is required.')
+
+  const { state } = await readEntityState(instance, entityId)
+
+  return getStorage().createVersion({
+    entityId,
+    name: name.trim(),
+    state: state ?? Y.encodeStateAsUpdate(new Y.Doc()),
+    authorId: author?.id ?? null,
+    authorName: author ? author.email || author.id : null,
+  })
+}
+
+export async function listVersions(entityId: string) {
+  return getStorage().listVersions(entityId)
+}
+
+/**
+ * Restores a version by rewriting the live document content to match it.
+ * This produces a forward Yjs update instead of overwriting the stored state,
+ * so connected clients and their IndexedDB caches converge on the restored content.
+ */
+export async function restoreVersion(instance: Hocuspocus, entityId: string, versionId: string, user: AuthUser | null = null) {
+  const version = await getStorage().loadVersion(entityId, versionId)
+  if (!version) throw new NotFoundError(`Version ${versionId} of ${entityId} does not exist.`)
+
+  await transactEntity(instance, entityId, (doc, entity) => {
+    replaceDocumentContent(doc, buildEntityDoc(entity.type, version.state))
+  }, { user })
+
+  const { state, ...summary } = version
+  return summary
+}
@@ -0,0 +1,76 @@
+import { isEntityType } from 'collaborative-editor-shared'
+import { randomBytes } from 'crypto'
+import { config } from '../config.js'
+import { NotFoundError, ValidationError } from '../errors.js'
+import { findPrivateAddress } from '../lib/network.js'
+import { StoredWebhook, WebhookEvent, getStorage } from '../storage/index.js'
+
+/**
+ * Registration of webhook endpoints per entity type. Deliveries are made by the
+ * dispatcher in lib/webhooks.ts.
+ */
+
+const WEBHOOK_EVENTS: WebhookEvent[] = ['entity.created', 'entity.changed', 'entity.deleted']
+
+/** The secret is only returned when the webhook is created */
+const toWebhookSummary = ({ secret, ...webhook }: StoredWebhook) => webhook
+
+export interface WebhookRegistration {
+  entityType: string
+  url: string
+  /** Generated when missing */
+  secret?: string
+  /** All events by default */
+  events?: string[]
+}
+
+export async function registerWebhook({ entityType, url, secret, events = WEBHOOK_EVENTS }: WebhookRegistration) {
+  if (typeof entityType !== 'string' || !isEntityType(entityType)) {
+    throw new ValidationError(`Unknown entity type "${entityType}".`)
+  }
+
+  let parsedUrl: URL
+  try {
+    parsedUrl = new URL(url)
+  } catch {
+    throw new ValidationError('"url" must be an absolute URL.')
+  }
+  if (parsedUrl.protocol !== 'http:' && parsedUrl.protocol !== 'https:') {
+    throw new ValidationError('"url" must be an http or https URL.')
+  }
+  if (!config.webhooks.allowPrivateUrls) {
+    let privateAddress: string | null
+    try {
+      privateAddress = await findPrivateAddress(parsedUrl)
+    } catch {
+      throw new ValidationError(`The host of "url" (${parsedUrl.hostname}) can't be resolved.`)
+    }
+    if (privateAddress) {
+      throw new ValidationError(`"url" must not point to a loopback or private network address (${privateAddress}).`)
+    }
+  }
+
+  if (secret !== undefined && (typeof secret !== 'string' || secret.length < 16)) {
+    throw new ValidationError('"secret" must be a string of at least 16 characters.')
+  }
+  if (!Array.isArray(events) || events.length === 0 || events.some(event => !WEBHOOK_EVENTS.includes(event as WebhookEvent))) {
+    throw new ValidationError(`"events" must be a non-empty list of ${WEBHOOK_EVENTS.join(', ')}.`)
+  }
+
+  return getStorage().createWebhook({
+    entityType,
+    url: parsedUrl.toString(),
+    secret: secret ?? randomBytes(32).toString('hex'),
+    events: Array.from(new Set(events)) as WebhookEvent[],
+  })
+}
+
+export async function listWebhooks(entityType?: string) {
+  return (await getStorage().listWebhooks(entityType)).map(toWebhookSummary)
+}
+
+export async function deleteWebhook(webhookId: string) {
+  const deleted = await getStorage().deleteWebhook(webhookId)
+  if (!deleted) throw new NotFoundError(`Webhook ${webhookId} does not exist.`)
+  return { id: webhookId, deleted }
+}
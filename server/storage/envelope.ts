@@ -0,0 +1,112 @@
+import { promisify } from 'util'
+import { brotliCompress, brotliDecompress, constants as zlibConstants, gunzip, gzip } from 'zlib'
+import * as Y from 'yjs'
+
+/**
+ * Binary envelope for stored Yjs states and updates:
+ *
+ *   byte 0-1  magic 0xC7 0x59
+ *   byte 2    format version (1)
+ *   byte 3    codec (0 none, 1 gzip, 2 brotli)
+ *   byte 4-   payload
+ *
+ * Rows written before the envelope existed hold the raw Yjs update. As the
+ * first varuint of a Yjs update, the magic would announce ~11k clients in a
+ * single update, so it doesn't collide with real legacy data. Anything that is
+ * neither a known envelope nor a decodable Yjs update is rejected with a
+ * StorageFormatError rather than read as an empty document.
+ */
+
+export type CompressionCodec = 'none' | 'gzip' | 'brotli'
+
+export interface EnvelopeOptions {
+  codec: CompressionCodec
+  /** Payloads smaller than this are stored uncompressed, compression would only add overhead */
+  minBytes: number
+}
+
+export class StorageFormatError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'StorageFormatError'
+  }
+}
+
+const MAGIC = [0xc7, 0x59]
+const FORMAT_VERSION = 1
+const HEADER_SIZE = 4
+const CODECS: CompressionCodec[] = ['none', 'gzip', 'brotli']
+
+const gzipAsync = promisify(gzip)
+const gunzipAsync = promisify(gunzip)
+const brotliCompressAsync = promisify(brotliCompress)
+const brotliDecompressAsync = promisify(brotliDecompress)
+
+function hasMagic(data: Uint8Array) {
+  return data.length >= HEADER_SIZE && data[0] === MAGIC[0] && data[1] === MAGIC[1]
+}
+
+async function compress(codec: CompressionCodec, data: Uint8Array): Promise<Uint8Array> {
+  switch (codec) {
+    case 'none':
+      return data
+    case 'gzip':
+      return gzipAsync(data)
+    case 'brotli':
+      return brotliCompressAsync(data, {
+        params: { [zlibConstants.BROTLI_PARAM_SIZE_HINT]: data.length },
+      })
+  }
+}
+
+async function decompress(codec: CompressionCodec, payload: Uint8Array): Promise<Uint8Array> {
+  switch (codec) {
+    case 'none':
+      return payload
+    case 'gzip':
+      return gunzipAsync(payload)
+    case 'brotli':
+      return brotliDecompressAsync(payload)
+  }
+}
+
+export async function encodeEnvelope(data: Uint8Array, { codec, minBytes }: EnvelopeOptions): Promise<Uint8Array> {
+  const used = data.length < minBytes ? 'none' : codec
+  const payload = await compress(used, data)
+
+  const envelope = new Uint8Array(HEADER_SIZE + payload.length)
+  envelope.set([...MAGIC, FORMAT_VERSION, CODECS.indexOf(used)])
+  envelope.set(payload, HEADER_SIZE)
+  return envelope
+}
+
+/**
+ * Reads an envelope, or a legacy row holding the raw Yjs update.
+ * `label` names the value in error messages (e.g. "yjs_state of <id>").
+ */
+export async function decodeEnvelope(data: Uint8Array, label: string): Promise<Uint8Array> {
+  if (!hasMagic(data)) {
+    try {
+      Y.parseUpdateMeta(data)
+    } catch {
+      throw new StorageFormatError(`${label} is neither an envelope nor a Yjs update.`)
+    }
+    return data
+  }
+
+  const version = data[2]
+  if (version !== FORMAT_VERSION) {
+    throw new StorageFormatError(`${label} uses unknown envelope version ${version}.`)
+  }
+
+  const codec = CODECS[data[3]]
+  if (!codec) {
+    throw new StorageFormatError(`${label} uses unknown compression codec ${data[3]}.`)
+  }
+
+  try {
+    return await decompress(codec, data.subarray(HEADER_SIZE))
+  } catch (error) {
+    throw new StorageFormatError(`${label} could not be decompressed (${codec}): ${(error as Error).message}`)
+  }
+}
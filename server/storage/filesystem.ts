@@ -0,0 +1,489 @@
+import { randomUUID } from 'crypto'
+import { EntityRole } from 'collaborative-editor-shared'
+import { promises as fs } from 'fs'
+import { join } from 'path'
+import { matchesDeltaFilters } from './memory.js'
+import {
+  CompactedStateWrite,
+  DrawableRow,
+  EntityHeader,
+  EntityProjection,
+  InitialEntityMember,
+  ListDeltasOptions,
+  ListEntitiesOptions,
+  NewDelta,
+  NewEntityMember,
+  NewVersion,
+  NewWebhook,
+  StorageAdapter,
+  StoredDelta,
+  StoredEntity,
+  StoredEntityMember,
+  StoredVersion,
+  StoredWebhook,
+  VersionSummary,
+} from './types.js'
+
+/**
+ * Stores entities as JSON files and deltas as JSON lines on the local disk:
+ *
+ *   <directory>/entities/<entityId>.json
+ *   <directory>/deltas/<entityId>.jsonl
+ *   <directory>/deltas-archive/<entityId>.jsonl
+ *   <directory>/versions/<entityId>.jsonl
+ *   <directory>/sequences/<entityId>   (last delta sequence number)
+ *   <directory>/drawables/<entityId>.json
+ *   <directory>/webhooks.json
+ *   <directory>/members/<entityId>.json
+ *
+ * Binary Yjs data is base64 encoded. Meant for local development
+ * without a Supabase project, not for multiple server instances.
+ */
+export class FileSystemStorageAdapter implements StorageAdapter {
+  readonly name = 'filesystem'
+  private locks = new Map<string, Promise<unknown>>()
+  private nextDeltaId: Promise<number> | null = null
+
+  constructor(private directory: string) {}
+
+  private entityPath(entityId: string) {
+    return join(this.directory, 'entities', `${encodeURIComponent(entityId)}.json`)
+  }
+
+  private deltasPath(entityId: string, folder = 'deltas') {
+    return join(this.directory, folder, `${encodeURIComponent(entityId)}.jsonl`)
+  }
+
+  /**
+   * Serializes all file operations of one entity so appends and rewrites
+   * of the same file never interleave.
+   */
+  private withLock<T>(entityId: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(entityId) ?? Promise.resolve()
+    const next = previous.catch(() => {}).then(fn)
+    this.locks.set(entityId, next)
+    next.finally(() => {
+      if (this.locks.get(entityId) === next) this.locks.delete(entityId)
+    }).catch(() => {})
+    return next
+  }
+
+  private async writeFileAtomic(path: string, contents: string) {
+    await fs.mkdir(join(path, '..'), { recursive: true })
+    const tmpPath = `${path}.${process.pid}.tmp`
+    await fs.writeFile(tmpPath, contents)
+    await fs.rename(tmpPath, path)
+  }
+
+  private async readJsonLines(path: string): Promise<any[]> {
+    try {
+      const contents = await fs.readFile(path, 'utf8')
+      return contents.split('\n').filter(Boolean).map(line => JSON.parse(line))
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return []
+      throw error
+    }
+  }
+
+  private async readDeltas(entityId: string): Promise<StoredDelta[]> {
+    const rows = await this.readJsonLines(this.deltasPath(entityId))
+    return rows.map(row => ({
+      // Deltas written before the metadata existed
+      seq: null,
+      userId: null,
+      clientIds: [],
+      clocks: {},
+      origin: null,
+      ...row,
+      update: Buffer.from(row.update, 'base64'),
+    }))
+  }
+
+  private serializeDelta(delta: StoredDelta) {
+    return JSON.stringify({ ...delta, update: Buffer.from(delta.update).toString('base64') }) + '\n'
+  }
+
+  private allocateDeltaId() {
+    // Chained synchronously so concurrent appends never get the same id
+    const allocated = this.nextDeltaId ?? this.scanMaxDeltaId().then(maxId => maxId + 1)
+    this.nextDeltaId = allocated.then(id => id + 1)
+    return allocated
+  }
+
+  private async scanMaxDeltaId() {
+    let maxId = 0
+    for (const folder of ['deltas', 'deltas-archive']) {
+      const files = await fs.readdir(join(this.directory, folder)).catch(() => [] as string[])
+      for (const file of files) {
+        const rows = await this.readJsonLines(join(this.directory, folder, file))
+        for (const row of rows) maxId = Math.max(maxId, row.id)
+      }
+    }
+    return maxId
+  }
+
+  async loadEntity(entityId: string): Promise<StoredEntity | null> {
+    try {
+      const row = JSON.parse(await fs.readFile(this.entityPath(entityId), 'utf8'))
+      return {
+        thumbnail: null,
+        deletedAt: null,
+        purgedAt: null,
+        ...row,
+        state: row.state ? Buffer.from(row.state, 'base64') : null,
+        compactedState: row.compactedState ? Buffer.from(row.compactedState, 'base64') : null,
+      }
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null
+      throw error
+    }
+  }
+
+  async loadState(entityId: string) {
+    return (await this.loadEntity(entityId))?.state ?? null
+  }
+
+  async loadEntityHeader(entityId: string): Promise<EntityHeader | null> {
+    const entity = await this.loadEntity(entityId)
+    if (!entity) return null
+    const { state, compactedState, ...header } = entity
+    return header
+  }
+
+  private async writeEntity(entity: StoredEntity) {
+    await this.writeFileAtomic(
+      this.entityPath(entity.id),
+      JSON.stringify({
+        ...entity,
+        state: entity.state ? Buffer.from(entity.state).toString('base64') : null,
+        compactedState: entity.compactedState ? Buffer.from(entity.compactedState).toString('base64') : null,
+      })
+    )
+  }
+
+  async listEntityIds({ type, afterId, limit }: ListEntitiesOptions = {}) {
+    const files = await fs.readdir(join(this.directory, 'entities')).catch(() => [] as string[])
+    const candidates = files
+      .filter(file => file.endsWith('.json'))
+      .map(file => decodeURIComponent(file.slice(0, -'.json'.length)))
+      .filter(entityId => afterId === undefined || entityId > afterId)
+      .sort()
+
+    const entityIds: string[] = []
+    for (const entityId of candidates) {
+      if (limit !== undefined && entityIds.length >= limit) break
+      if (type && (await this.loadEntity(entityId))?.type !== type) continue
+      entityIds.push(entityId)
+    }
+    return entityIds
+  }
+
+  async storeState(entityId: string, entityType: string, state: Uint8Array, { metadata = {}, thumbnail }: EntityProjection = {}) {
+    await this.withLock(`entity:${entityId}`, async () => {
+      const now = new Date().toISOString()
+      const existing = await this.loadEntity(entityId)
+
+      await this.writeEntity({
+        id: entityId,
+        type: entityType,
+        compactedState: null,
+        compactedUntil: null,
+        compactedDeltaId: null,
+        thumbnail: null,
+        deletedAt: null,
+        purgedAt: null,
+        createdAt: now,
+        ...existing,
+        metadata: { ...existing?.metadata, ...metadata },
+        ...(thumbnail !== undefined && { thumbnail }),
+        state,
+        updatedAt: now,
+      })
+    })
+  }
+
+  async createEntity(
+    entityId: string,
+    entityType: string,
+    state: Uint8Array,
+    projection: EntityProjection,
+    members: InitialEntityMember[]
+  ) {
+    if (await this.loadEntityHeader(entityId)) throw new Error(`Entity ${entityId} already exists.`)
+
+    // Members first: without its entity file they are never read
+    const createdAt = new Date().toISOString()
+    await this.updateMembers(entityId, stored => {
+      stored.splice(0, stored.length, ...members.map(member => ({ ...member, entityId, id: randomUUID(), createdAt })))
+      return true
+    })
+    await this.storeState(entityId, entityType, state, projection)
+  }
+
+  async setEntityDeletedAt(entityId: string, deletedAt: string | null) {
+    await this.withLock(`entity:${entityId}`, async () => {
+      const entity = await this.loadEntity(entityId)
+      if (entity) await this.writeEntity({ ...entity, deletedAt })
+    })
+  }
+
+  async purgeEntity(entityId: string) {
+    await this.withLock(`entity:${entityId}`, async () => {
+      const entity = await this.loadEntity(entityId)
+      if (!entity) return
+
+      await this.writeEntity({
+        ...entity,
+        state: null,
+        metadata: {},
+        compactedState: null,
+        compactedUntil: null,
+        compactedDeltaId: null,
+        thumbnail: null,
+        purgedAt: new Date().toISOString(),
+      })
+    })
+
+    const remove = (path: string) => fs.rm(path, { force: true })
+    await this.withLock(`deltas:${entityId}`, async () => {
+      await remove(this.deltasPath(entityId))
+      await remove(this.deltasPath(entityId, 'deltas-archive'))
+      await remove(join(this.directory, 'sequences', encodeURIComponent(entityId)))
+    })
+    await this.withLock(`versions:${entityId}`, () => remove(this.deltasPath(entityId, 'versions')))
+    await this.withLock(`drawables:${entityId}`, () => remove(this.drawablesPath(entityId)))
+  }
+
+  /**
+   * Kept outside the deltas file so sequence numbers survive compaction.
+   * Must be called with the deltas lock of the entity held.
+   */
+  private async allocateDeltaSeq(entityId: string) {
+    const path = join(this.directory, 'sequences', encodeURIComponent(entityId))
+    const last = await fs.readFile(path, 'utf8').then(Number, () => 0)
+    await this.writeFileAtomic(path, String(last + 1))
+    return last + 1
+  }
+
+  async appendDelta(delta: NewDelta) {
+    await this.withLock(`deltas:${delta.entityId}`, async () => {
+      const stored: StoredDelta = {
+        ...delta,
+        id: await this.allocateDeltaId(),
+        seq: await this.allocateDeltaSeq(delta.entityId),
+        createdAt: new Date().toISOString(),
+      }
+      const path = this.deltasPath(delta.entityId)
+      await fs.mkdir(join(path, '..'), { recursive: true })
+      await fs.appendFile(path, this.serializeDelta(stored))
+    })
+  }
+
+  async listDeltas(entityId: string, options: ListDeltasOptions = {}) {
+    const deltas = (await this.readDeltas(entityId)).filter(delta => matchesDeltaFilters(delta, options))
+    return options.limit !== undefined ? deltas.slice(0, options.limit) : deltas
+  }
+
+  async countDeltas(entityId: string, options: ListDeltasOptions = {}) {
+    return (await this.readDeltas(entityId)).filter(delta => matchesDeltaFilters(delta, options)).length
+  }
+
+  async listEntitiesWithDeltasBefore(before: Date, limit = 1000, entityType?: string, after?: string) {
+    const files = await fs.readdir(join(this.directory, 'deltas')).catch(() => [] as string[])
+    const allEntityIds = files
+      .filter(file => file.endsWith('.jsonl'))
+      .map(file => decodeURIComponent(file.slice(0, -'.jsonl'.length)))
+      .sort()
+    const entityIds: string[] = []
+
+    for (const entityId of allEntityIds) {
+      if (after !== undefined && entityId <= after) continue
+      const deltas = await this.listDeltas(entityId, { before })
+      if (deltas.some(delta => !entityType || delta.entityType === entityType)) entityIds.push(entityId)
+      if (entityIds.length >= limit) break
+    }
+    return entityIds
+  }
+
+  async writeCompactedState(entityId: string, state: Uint8Array, write: CompactedStateWrite) {
+    return this.withLock(`entity:${entityId}`, async () => {
+      const entity = await this.loadEntity(entityId)
+      if (!entity || entity.updatedAt !== write.expectedUpdatedAt) return false
+
+      await this.writeEntity({
+        ...entity,
+        state,
+        compactedState: write.compactedState,
+        compactedUntil: write.compactedUntil,
+        compactedDeltaId: write.compactedDeltaId,
+      })
+      return true
+    })
+  }
+
+  async removeDeltas(entityId: string, options: ListDeltasOptions, { archive }: { archive: boolean }) {
+    await this.withLock(`deltas:${entityId}`, async () => {
+      const deltas = await this.readDeltas(entityId)
+      const removed = deltas.filter(delta => matchesDeltaFilters(delta, options))
+      if (removed.length === 0) return
+
+      if (archive) {
+        const archivePath = this.deltasPath(entityId, 'deltas-archive')
+        await fs.mkdir(join(archivePath, '..'), { recursive: true })
+        await fs.appendFile(archivePath, removed.map(delta => this.serializeDelta(delta)).join(''))
+      }
+
+      const kept = deltas.filter(delta => !removed.includes(delta))
+      await this.writeFileAtomic(this.deltasPath(entityId), kept.map(delta => this.serializeDelta(delta)).join(''))
+    })
+  }
+
+  private async readVersions(entityId: string): Promise<StoredVersion[]> {
+    const rows = await this.readJsonLines(this.deltasPath(entityId, 'versions'))
+    return rows.map(row => ({ ...row, state: Buffer.from(row.state, 'base64') }))
+  }
+
+  async createVersion(version: NewVersion): Promise<VersionSummary> {
+    const stored: StoredVersion = { ...version, id: randomUUID(), createdAt: new Date().toISOString() }
+
+    await this.withLock(`versions:${version.entityId}`, async () => {
+      const path = this.deltasPath(version.entityId, 'versions')
+      await fs.mkdir(join(path, '..'), { recursive: true })
+      await fs.appendFile(path, JSON.stringify({ ...stored, state: Buffer.from(stored.state).toString('base64') }) + '\n')
+    })
+
+    const { state, ...summary } = stored
+    return summary
+  }
+
+  async listVersions(entityId: string): Promise<VersionSummary[]> {
+    return (await this.readVersions(entityId))
+      .map(({ state, ...summary }) => summary)
+      .reverse()
+  }
+
+  async loadVersion(entityId: string, versionId: string) {
+    return (await this.readVersions(entityId)).find(version => version.id === versionId) ?? null
+  }
+
+  private drawablesPath(entityId: string) {
+    return join(this.directory, 'drawables', `${encodeURIComponent(entityId)}.json`)
+  }
+
+  async listDrawableRows(entityId: string): Promise<DrawableRow[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.drawablesPath(entityId), 'utf8'))
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return []
+      throw error
+    }
+  }
+
+  private async updateDrawableRows(entityId: string, update: (rows: Map<string, DrawableRow>) => void) {
+    await this.withLock(`drawables:${entityId}`, async () => {
+      const rows = new Map((await this.listDrawableRows(entityId)).map(row => [row.drawableId, row]))
+      update(rows)
+      await this.writeFileAtomic(this.drawablesPath(entityId), JSON.stringify(Array.from(rows.values())))
+    })
+  }
+
+  async upsertDrawableRows(rows: DrawableRow[]) {
+    const byEntity = new Map<string, DrawableRow[]>()
+    rows.forEach(row => byEntity.set(row.entityId, [...(byEntity.get(row.entityId) ?? []), row]))
+
+    for (const [entityId, entityRows] of byEntity) {
+      await this.updateDrawableRows(entityId, existing => {
+        entityRows.forEach(row => existing.set(row.drawableId, row))
+      })
+    }
+  }
+
+  async deleteDrawableRows(entityId: string, drawableIds?: string[]) {
+    await this.updateDrawableRows(entityId, existing => {
+      if (!drawableIds) existing.clear()
+      drawableIds?.forEach(drawableId => existing.delete(drawableId))
+    })
+  }
+
+  private get webhooksPath() {
+    return join(this.directory, 'webhooks.json')
+  }
+
+  private async readWebhooks(): Promise<StoredWebhook[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.webhooksPath, 'utf8'))
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return []
+      throw error
+    }
+  }
+
+  async createWebhook(webhook: NewWebhook) {
+    const stored: StoredWebhook = { ...webhook, id: randomUUID(), createdAt: new Date().toISOString() }
+    await this.withLock('webhooks', async () => {
+      await this.writeFileAtomic(this.webhooksPath, JSON.stringify([...(await this.readWebhooks()), stored]))
+    })
+    return stored
+  }
+
+  async listWebhooks(entityType?: string) {
+    return (await this.readWebhooks()).filter(webhook => !entityType || webhook.entityType === entityType)
+  }
+
+  async deleteWebhook(webhookId: string) {
+    return this.withLock('webhooks', async () => {
+      const webhooks = await this.readWebhooks()
+      const kept = webhooks.filter(webhook => webhook.id !== webhookId)
+      if (kept.length === webhooks.length) return false
+
+      await this.writeFileAtomic(this.webhooksPath, JSON.stringify(kept))
+      return true
+    })
+  }
+
+  private membersPath(entityId: string) {
+    return join(this.directory, 'members', `${encodeURIComponent(entityId)}.json`)
+  }
+
+  async listEntityMembers(entityId: string): Promise<StoredEntityMember[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.membersPath(entityId), 'utf8'))
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return []
+      throw error
+    }
+  }
+
+  /** Applies `update` to the members of an entity, writes them when it returns true */
+  private updateMembers(entityId: string, update: (members: StoredEntityMember[]) => boolean) {
+    return this.withLock(`members:${entityId}`, async () => {
+      const members = await this.listEntityMembers(entityId)
+      if (!update(members)) return false
+
+      await this.writeFileAtomic(this.membersPath(entityId), JSON.stringify(members))
+      return true
+    })
+  }
+
+  async createEntityMember(member: NewEntityMember) {
+    const stored: StoredEntityMember = { ...member, id: randomUUID(), createdAt: new Date().toISOString() }
+    await this.updateMembers(member.entityId, members => members.push(stored) > 0)
+    return stored
+  }
+
+  async updateEntityMemberRole(entityId: string, memberId: string, role: EntityRole) {
+    return this.updateMembers(entityId, members => {
+      const member = members.find(candidate => candidate.id === memberId)
+      if (member) member.role = role
+      return !!member
+    })
+  }
+
+  async deleteEntityMember(entityId: string, memberId: string) {
+    return this.updateMembers(entityId, members => {
+      const index = members.findIndex(member => member.id === memberId)
+      if (index !== -1) members.splice(index, 1)
+      return index !== -1
+    })
+  }
+}
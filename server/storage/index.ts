@@ -0,0 +1,45 @@
+import { resolve } from 'path'
+import { config } from '../config.js'
+import { FileSystemStorageAdapter } from './filesystem.js'
+import { MemoryStorageAdapter } from './memory.js'
+import { SupabaseStorageAdapter } from './supabase.js'
+import { StorageAdapter } from './types.js'
+
+export * from './types.js'
+export { StorageFormatError } from './envelope.js'
+export { FileSystemStorageAdapter, MemoryStorageAdapter, SupabaseStorageAdapter }
+
+export type StorageAdapterName = 'supabase' | 'filesystem' | 'memory'
+
+export function createStorageAdapter(name: StorageAdapterName): StorageAdapter {
+  switch (name) {
+    case 'supabase':
+      return new SupabaseStorageAdapter(config.supabase, config.storage.envelope)
+    case 'filesystem':
+      return new FileSystemStorageAdapter(resolve(config.storage.directory))
+    case 'memory':
+      return new MemoryStorageAdapter()
+    default:
+      throw new Error(`Unknown storage adapter: ${name}`)
+  }
+}
+
+let storage: StorageAdapter | null = null
+
+/**
+ * Returns the storage adapter selected by STORAGE_ADAPTER (defaults to supabase).
+ */
+export function getStorage() {
+  if (!storage) {
+    storage = createStorageAdapter(config.storage.adapter)
+    console.log(`[Storage] Using ${storage.name} storage adapter`)
+  }
+  return storage
+}
+
+/**
+ * Replaces the active adapter, e.g. with a MemoryStorageAdapter in tests.
+ */
+export function setStorage(adapter: StorageAdapter) {
+  storage = adapter
+}
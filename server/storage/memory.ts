@@ -0,0 +1,259 @@
+import { randomUUID } from 'crypto'
+import { EntityRole } from 'collaborative-editor-shared'
+import {
+  CompactedStateWrite,
+  DrawableRow,
+  EntityHeader,
+  EntityProjection,
+  InitialEntityMember,
+  ListDeltasOptions,
+  ListEntitiesOptions,
+  NewDelta,
+  NewEntityMember,
+  NewVersion,
+  NewWebhook,
+  StorageAdapter,
+  StoredDelta,
+  StoredEntity,
+  StoredEntityMember,
+  StoredVersion,
+  StoredWebhook,
+  VersionSummary,
+} from './types.js'
+
+export function matchesDeltaFilters(delta: StoredDelta, { before, afterId, upToId }: ListDeltasOptions) {
+  if (before && new Date(delta.createdAt) >= before) return false
+  if (afterId !== undefined && delta.id <= afterId) return false
+  if (upToId !== undefined && delta.id > upToId) return false
+  return true
+}
+
+/**
+ * Keeps everything in process memory. Data is lost on restart,
+ * which makes it a good fit for tests and throwaway local servers.
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  readonly name = 'memory'
+  private entities = new Map<string, StoredEntity>()
+  private deltas = new Map<string, StoredDelta[]>()
+  private archive: StoredDelta[] = []
+  private versions = new Map<string, StoredVersion[]>()
+  private nextDeltaId = 1
+  private deltaSeqs = new Map<string, number>()
+  private drawableRows = new Map<string, Map<string, DrawableRow>>()
+  private webhooks: StoredWebhook[] = []
+  private members = new Map<string, StoredEntityMember[]>()
+
+  async loadEntity(entityId: string) {
+    return this.entities.get(entityId) ?? null
+  }
+
+  async loadState(entityId: string) {
+    return this.entities.get(entityId)?.state ?? null
+  }
+
+  async loadEntityHeader(entityId: string): Promise<EntityHeader | null> {
+    const entity = this.entities.get(entityId)
+    if (!entity) return null
+    const { state, compactedState, ...header } = entity
+    return header
+  }
+
+  async listEntityIds({ type, afterId, limit }: ListEntitiesOptions = {}) {
+    const entityIds = Array.from(this.entities.values())
+      .filter(entity => (!type || entity.type === type) && (afterId === undefined || entity.id > afterId))
+      .map(entity => entity.id)
+      .sort()
+    return limit !== undefined ? entityIds.slice(0, limit) : entityIds
+  }
+
+  async storeState(entityId: string, entityType: string, state: Uint8Array, { metadata = {}, thumbnail }: EntityProjection = {}) {
+    const now = new Date().toISOString()
+    const existing = this.entities.get(entityId)
+
+    this.entities.set(entityId, {
+      id: entityId,
+      type: entityType,
+      compactedState: null,
+      compactedUntil: null,
+      compactedDeltaId: null,
+      thumbnail: null,
+      deletedAt: null,
+      purgedAt: null,
+      createdAt: now,
+      ...existing,
+      metadata: { ...existing?.metadata, ...metadata },
+      ...(thumbnail !== undefined && { thumbnail }),
+      state,
+      updatedAt: now,
+    })
+  }
+
+  async createEntity(
+    entityId: string,
+    entityType: string,
+    state: Uint8Array,
+    projection: EntityProjection,
+    members: InitialEntityMember[]
+  ) {
+    if (this.entities.has(entityId)) throw new Error(`Entity ${entityId} already exists.`)
+
+    const createdAt = new Date().toISOString()
+    this.members.set(entityId, members.map(member => ({ ...member, entityId, id: randomUUID(), createdAt })))
+    await this.storeState(entityId, entityType, state, projection)
+  }
+
+  async setEntityDeletedAt(entityId: string, deletedAt: string | null) {
+    const entity = this.entities.get(entityId)
+    if (entity) this.entities.set(entityId, { ...entity, deletedAt })
+  }
+
+  async purgeEntity(entityId: string) {
+    const entity = this.entities.get(entityId)
+    if (entity) {
+      this.entities.set(entityId, {
+        ...entity,
+        state: null,
+        metadata: {},
+        compactedState: null,
+        compactedUntil: null,
+        compactedDeltaId: null,
+        thumbnail: null,
+        purgedAt: new Date().toISOString(),
+      })
+    }
+    this.deltas.delete(entityId)
+    this.archive = this.archive.filter(delta => delta.entityId !== entityId)
+    this.deltaSeqs.delete(entityId)
+    this.versions.delete(entityId)
+    this.drawableRows.delete(entityId)
+  }
+
+  async appendDelta(delta: NewDelta) {
+    const deltas = this.deltas.get(delta.entityId) ?? []
+    const seq = (this.deltaSeqs.get(delta.entityId) ?? 0) + 1
+    this.deltaSeqs.set(delta.entityId, seq)
+    deltas.push({ ...delta, id: this.nextDeltaId++, seq, createdAt: new Date().toISOString() })
+    this.deltas.set(delta.entityId, deltas)
+  }
+
+  async listDeltas(entityId: string, options: ListDeltasOptions = {}) {
+    const deltas = (this.deltas.get(entityId) ?? []).filter(delta => matchesDeltaFilters(delta, options))
+    return options.limit !== undefined ? deltas.slice(0, options.limit) : deltas
+  }
+
+  async countDeltas(entityId: string, options: ListDeltasOptions = {}) {
+    return (this.deltas.get(entityId) ?? []).filter(delta => matchesDeltaFilters(delta, options)).length
+  }
+
+  async listEntitiesWithDeltasBefore(before: Date, limit = 1000, entityType?: string, after?: string) {
+    const entityIds: string[] = []
+    for (const [entityId, deltas] of [...this.deltas].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))) {
+      if (after !== undefined && entityId <= after) continue
+      const matches = (delta: StoredDelta) => (!entityType || delta.entityType === entityType) && matchesDeltaFilters(delta, { before })
+      if (deltas.some(matches)) entityIds.push(entityId)
+      if (entityIds.length >= limit) break
+    }
+    return entityIds
+  }
+
+  async writeCompactedState(entityId: string, state: Uint8Array, write: CompactedStateWrite) {
+    const entity = this.entities.get(entityId)
+    if (!entity || entity.updatedAt !== write.expectedUpdatedAt) return false
+
+    this.entities.set(entityId, {
+      ...entity,
+      state,
+      compactedState: write.compactedState,
+      compactedUntil: write.compactedUntil,
+      compactedDeltaId: write.compactedDeltaId,
+    })
+    return true
+  }
+
+  async removeDeltas(entityId: string, options: ListDeltasOptions, { archive }: { archive: boolean }) {
+    const deltas = this.deltas.get(entityId) ?? []
+    const removed = deltas.filter(delta => matchesDeltaFilters(delta, options))
+
+    if (archive) this.archive.push(...removed)
+    this.deltas.set(entityId, deltas.filter(delta => !removed.includes(delta)))
+  }
+
+  async createVersion(version: NewVersion): Promise<VersionSummary> {
+    const stored: StoredVersion = { ...version, id: randomUUID(), createdAt: new Date().toISOString() }
+    this.versions.set(version.entityId, [...(this.versions.get(version.entityId) ?? []), stored])
+
+    const { state, ...summary } = stored
+    return summary
+  }
+
+  async listVersions(entityId: string): Promise<VersionSummary[]> {
+    return (this.versions.get(entityId) ?? [])
+      .map(({ state, ...summary }) => summary)
+      .reverse()
+  }
+
+  async loadVersion(entityId: string, versionId: string) {
+    return (this.versions.get(entityId) ?? []).find(version => version.id === versionId) ?? null
+  }
+
+  async listDrawableRows(entityId: string) {
+    return Array.from(this.drawableRows.get(entityId)?.values() ?? [])
+  }
+
+  async upsertDrawableRows(rows: DrawableRow[]) {
+    for (const row of rows) {
+      const entityRows = this.drawableRows.get(row.entityId) ?? new Map<string, DrawableRow>()
+      entityRows.set(row.drawableId, row)
+      this.drawableRows.set(row.entityId, entityRows)
+    }
+  }
+
+  async deleteDrawableRows(entityId: string, drawableIds?: string[]) {
+    if (!drawableIds) {
+      this.drawableRows.delete(entityId)
+      return
+    }
+    drawableIds.forEach(drawableId => this.drawableRows.get(entityId)?.delete(drawableId))
+  }
+
+  async createWebhook(webhook: NewWebhook) {
+    const stored: StoredWebhook = { ...webhook, id: randomUUID(), createdAt: new Date().toISOString() }
+    this.webhooks.push(stored)
+    return stored
+  }
+
+  async listWebhooks(entityType?: string) {
+    return this.webhooks.filter(webhook => !entityType || webhook.entityType === entityType)
+  }
+
+  async deleteWebhook(webhookId: string) {
+    const count = this.webhooks.length
+    this.webhooks = this.webhooks.filter(webhook => webhook.id !== webhookId)
+    return this.webhooks.length < count
+  }
+
+  async listEntityMembers(entityId: string) {
+    return [...(this.members.get(entityId) ?? [])]
+  }
+
+  async createEntityMember(member: NewEntityMember) {
+    const stored: StoredEntityMember = { ...member, id: randomUUID(), createdAt: new Date().toISOString() }
+    this.members.set(member.entityId, [...(this.members.get(member.entityId) ?? []), stored])
+    return stored
+  }
+
+  async updateEntityMemberRole(entityId: string, memberId: string, role: EntityRole) {
+    const member = this.members.get(entityId)?.find(candidate => candidate.id === memberId)
+    if (!member) return false
+    member.role = role
+    return true
+  }
+
+  async deleteEntityMember(entityId: string, memberId: string) {
+    const members = this.members.get(entityId) ?? []
+    const kept = members.filter(member => member.id !== memberId)
+    this.members.set(entityId, kept)
+    return kept.length < members.length
+  }
+}
@@ -0,0 +1,570 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { EntityRole } from 'collaborative-editor-shared'
+import { EnvelopeOptions, StorageFormatError, decodeEnvelope, encodeEnvelope } from './envelope.js'
+import {
+  CompactedStateWrite,
+  DrawableRow,
+  EntityHeader,
+  EntityProjection,
+  InitialEntityMember,
+  ListDeltasOptions,
+  ListEntitiesOptions,
+  NewDelta,
+  NewEntityMember,
+  NewVersion,
+  NewWebhook,
+  StorageAdapter,
+  StoredDelta,
+  StoredEntity,
+  StoredEntityMember,
+  StoredVersion,
+  StoredWebhook,
+  VersionSummary,
+} from './types.js'
+
+const YJS_ENTITIES_TABLE = 'yjs_entities'
+const YJS_ENTITY_DELTAS_TABLE = 'yjs_entity_deltas'
+const YJS_ENTITY_DELTAS_ARCHIVE_TABLE = 'yjs_entity_deltas_archive'
+const YJS_ENTITY_VERSIONS_TABLE = 'yjs_entity_versions'
+const YJS_ENTITY_DRAWABLES_TABLE = 'yjs_entity_drawables'
+const YJS_ENTITY_DELTA_SEQS_TABLE = 'yjs_entity_delta_seqs'
+const YJS_WEBHOOKS_TABLE = 'yjs_webhooks'
+const YJS_ENTITY_MEMBERS_TABLE = 'yjs_entity_members'
+// Ids are sent in the query string, keep filters on many ids short
+const ID_FILTER_CHUNK_SIZE = 200
+const VERSION_SUMMARY_COLUMNS = 'id, entity_id, name, author_id, author_name, created_at'
+const ENTITY_HEADER_COLUMNS =
+  'id, type, metadata, thumbnail_svg, compacted_until, compacted_delta_id, deleted_at, purged_at, created_at, updated_at'
+
+/**
+ * BYTEA columns are read and written as hex strings (`\\x...`) holding an envelope (see envelope.ts).
+ */
+async function toBytea(data: Uint8Array, options: EnvelopeOptions) {
+  return '\\x' + Buffer.from(await encodeEnvelope(data, options)).toString('hex')
+}
+
+async function fromBytea(value: unknown, label: string): Promise<Uint8Array> {
+  if (typeof value !== 'string' || !value.startsWith('\\x')) {
+    throw new StorageFormatError(`${label} is not a hex encoded BYTEA value.`)
+  }
+  return decodeEnvelope(Buffer.from(value.slice(2), 'hex'), label)
+}
+
+function toEntityHeader(row: any): EntityHeader {
+  return {
+    id: row.id,
+    type: row.type,
+    metadata: row.metadata || {},
+    thumbnail: row.thumbnail_svg ?? null,
+    compactedUntil: row.compacted_until ?? null,
+    compactedDeltaId: row.compacted_delta_id === null || row.compacted_delta_id === undefined
+      ? null
+      : Number(row.compacted_delta_id),
+    deletedAt: row.deleted_at ?? null,
+    purgedAt: row.purged_at ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+async function toStoredDelta(row: any): Promise<StoredDelta> {
+  return {
+    id: Number(row.id),
+    entityId: row.entity_id,
+    entityType: row.entity_type,
+    update: await fromBytea(row.update, `Delta ${row.id} of ${row.entity_id}`),
+    seq: row.seq === null || row.seq === undefined ? null : Number(row.seq),
+    userId: row.user_id ?? null,
+    clientIds: (row.client_ids || []).map(Number),
+    clocks: row.clocks || {},
+    origin: row.origin ?? null,
+    createdAt: row.created_at,
+  }
+}
+
+function toStoredWebhook(row: any): StoredWebhook {
+  return {
+    id: row.id,
+    entityType: row.entity_type,
+    url: row.url,
+    secret: row.secret,
+    events: row.events || [],
+    createdAt: row.created_at,
+  }
+}
+
+function toStoredEntityMember(row: any): StoredEntityMember {
+  return {
+    id: row.id,
+    entityId: row.entity_id,
+    userId: row.user_id ?? null,
+    email: row.email ?? null,
+    role: row.role,
+    createdAt: row.created_at,
+  }
+}
+
+function toVersionSummary(row: any): VersionSummary {
+  return {
+    id: row.id,
+    entityId: row.entity_id,
+    name: row.name,
+    authorId: row.author_id,
+    authorName: row.author_name,
+    createdAt: row.created_at,
+  }
+}
+
+/**
+ * Stores entities, deltas and versions in the Supabase tables from supabase-schema.sql.
+ */
+export class SupabaseStorageAdapter implements StorageAdapter {
+  readonly name = 'supabase'
+  private client: SupabaseClient
+
+  constructor(
+    { url, serviceKey }: { url?: string; serviceKey?: string },
+    private envelope: EnvelopeOptions = { codec: 'gzip', minBytes: 256 }
+  ) {
+    if (!url || !serviceKey) {
+      throw new Error('Missing Supabase credentials.')
+    }
+    this.client = createClient(url, serviceKey)
+  }
+
+  private applyDeltaFilters(query: any, { before, afterId, upToId }: ListDeltasOptions) {
+    if (before) query = query.lt('created_at', before.toISOString())
+    if (afterId !== undefined) query = query.gt('id', afterId)
+    if (upToId !== undefined) query = query.lte('id', upToId)
+    return query
+  }
+
+  async loadEntity(entityId: string): Promise<StoredEntity | null> {
+    const { data, error } = await this.client
+      .from(YJS_ENTITIES_TABLE)
+      .select('*')
+      .eq('id', entityId)
+      .single()
+
+    if (error && error.code !== 'PGRST116') throw error
+    if (!data) return null
+
+    const state = data.yjs_state ? await fromBytea(data.yjs_state, `yjs_state of ${entityId}`) : null
+    const compactedState = data.compacted_state
+      ? await fromBytea(data.compacted_state, `compacted_state of ${entityId}`)
+      : null
+
+    return { ...toEntityHeader(data), state, compactedState }
+  }
+
+  async loadEntityHeader(entityId: string): Promise<EntityHeader | null> {
+    const { data, error } = await this.client
+      .from(YJS_ENTITIES_TABLE)
+      .select(ENTITY_HEADER_COLUMNS)
+      .eq('id', entityId)
+      .maybeSingle()
+
+    if (error) throw error
+    return data ? toEntityHeader(data) : null
+  }
+
+  async loadState(entityId: string): Promise<Uint8Array | null> {
+    const { data, error } = await this.client
+      .from(YJS_ENTITIES_TABLE)
+      .select('yjs_state')
+      .eq('id', entityId)
+      .single()
+
+    if (error && error.code !== 'PGRST116') throw error
+    if (!data?.yjs_state) return null
+
+    // Unreadable state is an error, an empty document would overwrite it on the next store
+    return fromBytea(data.yjs_state, `yjs_state of ${entityId}`)
+  }
+
+  async listEntityIds({ type, afterId, limit }: ListEntitiesOptions = {}): Promise<string[]> {
+    let query = this.client
+      .from(YJS_ENTITIES_TABLE)
+      .select('id')
+      .order('id', { ascending: true })
+
+    if (type) query = query.eq('type', type)
+    if (afterId !== undefined) query = query.gt('id', afterId)
+    if (limit !== undefined) query = query.limit(limit)
+
+    const { data, error } = await query
+    if (error) throw error
+    return (data || []).map(row => row.id as string)
+  }
+
+  async storeState(entityId: string, entityType: string, state: Uint8Array, { metadata = {}, thumbnail }: EntityProjection = {}) {
+    // Upserts and merges the metadata with the stored keys in one statement, so
+    // concurrent writers (e.g. a projection backfill) don't drop each other's keys
+    const { error } = await this.client.rpc('store_yjs_entity_state', {
+      p_id: entityId,
+      p_type: entityType,
+      p_state: await toBytea(state, this.envelope),
+      p_metadata: metadata,
+      p_thumbnail: thumbnail ?? null,
+      p_set_thumbnail: thumbnail !== undefined,
+    })
+
+    if (error) throw error
+  }
+
+  async createEntity(
+    entityId: string,
+    entityType: string,
+    state: Uint8Array,
+    { metadata = {}, thumbnail }: EntityProjection,
+    members: InitialEntityMember[]
+  ) {
+    // One transaction for the entity and its members (see supabase-schema.sql)
+    const { error } = await this.client.rpc('create_yjs_entity', {
+      p_id: entityId,
+      p_type: entityType,
+      p_state: await toBytea(state, this.envelope),
+      p_metadata: metadata,
+      p_thumbnail: thumbnail ?? null,
+      p_members: members.map(({ userId, email, role }) => ({ user_id: userId, email, role })),
+    })
+
+    if (error) throw error
+  }
+
+  async setEntityDeletedAt(entityId: string, deletedAt: string | null) {
+    const { error } = await this.client
+      .from(YJS_ENTITIES_TABLE)
+      .update({ deleted_at: deletedAt })
+      .eq('id', entityId)
+
+    if (error) throw error
+  }
+
+  async purgeEntity(entityId: string) {
+    const tables = [
+      YJS_ENTITY_DELTAS_TABLE,
+      YJS_ENTITY_DELTAS_ARCHIVE_TABLE,
+      YJS_ENTITY_VERSIONS_TABLE,
+      YJS_ENTITY_DRAWABLES_TABLE,
+      YJS_ENTITY_DELTA_SEQS_TABLE,
+    ]
+    for (const table of tables) {
+      const { error } = await this.client
+        .from(table)
+        .delete()
+        .eq('entity_id', entityId)
+
+      if (error) throw error
+    }
+
+    // The row stays as a tombstone, so the id is never handed out again
+    const { error } = await this.client
+      .from(YJS_ENTITIES_TABLE)
+      .update({
+        yjs_state: null,
+        metadata: {},
+        thumbnail_svg: null,
+        compacted_state: null,
+        compacted_until: null,
+        compacted_delta_id: null,
+        purged_at: new Date().toISOString(),
+      })
+      .eq('id', entityId)
+
+    if (error) throw error
+  }
+
+  async appendDelta(delta: NewDelta) {
+    const { error } = await this.client
+      .from(YJS_ENTITY_DELTAS_TABLE)
+      .insert({
+        entity_id: delta.entityId,
+        entity_type: delta.entityType,
+        update: await toBytea(delta.update, this.envelope),
+        // seq is assigned by the assign_yjs_entity_delta_seq trigger
+        user_id: delta.userId,
+        client_ids: delta.clientIds,
+        clocks: delta.clocks,
+        origin: delta.origin,
+      })
+
+    if (error) throw error
+  }
+
+  async listDeltas(entityId: string, options: ListDeltasOptions = {}): Promise<StoredDelta[]> {
+    let query = this.client
+      .from(YJS_ENTITY_DELTAS_TABLE)
+      .select('*')
+      .eq('entity_id', entityId)
+
+    query = this.applyDeltaFilters(query, options).order('id', { ascending: true })
+    if (options.limit !== undefined) query = query.limit(options.limit)
+
+    const { data, error } = await query
+    if (error) throw error
+    return Promise.all((data || []).map(toStoredDelta))
+  }
+
+  async countDeltas(entityId: string, options: ListDeltasOptions = {}): Promise<number> {
+    let query = this.client
+      .from(YJS_ENTITY_DELTAS_TABLE)
+      .select('id', { count: 'exact', head: true })
+      .eq('entity_id', entityId)
+    query = this.applyDeltaFilters(query, options)
+
+    const { count, error } = await query
+    if (error) throw error
+    return count ?? 0
+  }
+
+  async listEntitiesWithDeltasBefore(before: Date, limit = 1000, entityType?: string, after?: string): Promise<string[]> {
+    // Pages over entities rather than delta rows, one busy entity can't fill a page
+    const { data, error } = await this.client.rpc('list_yjs_entities_with_deltas_before', {
+      p_before: before.toISOString(),
+      p_entity_type: entityType ?? null,
+      p_after: after ?? null,
+      p_limit: limit,
+    })
+
+    if (error) throw error
+    return (data || []).map((row: { entity_id: string }) => row.entity_id)
+  }
+
+  async writeCompactedState(entityId: string, state: Uint8Array, write: CompactedStateWrite) {
+    const { data, error } = await this.client
+      .from(YJS_ENTITIES_TABLE)
+      .update({
+        yjs_state: await toBytea(state, this.envelope),
+        compacted_state: await toBytea(write.compactedState, this.envelope),
+        compacted_until: write.compactedUntil,
+        compacted_delta_id: write.compactedDeltaId,
+      })
+      .eq('id', entityId)
+      .eq('updated_at', write.expectedUpdatedAt)
+      .select('id')
+
+    if (error) throw error
+    return !!data && data.length > 0
+  }
+
+  async removeDeltas(entityId: string, options: ListDeltasOptions, { archive }: { archive: boolean }) {
+    if (archive) {
+      let select = this.client
+        .from(YJS_ENTITY_DELTAS_TABLE)
+        .select('*')
+        .eq('entity_id', entityId)
+      select = this.applyDeltaFilters(select, options)
+
+      const { data, error } = await select
+      if (error) throw error
+
+      if (data && data.length > 0) {
+        const { error: archiveError } = await this.client
+          .from(YJS_ENTITY_DELTAS_ARCHIVE_TABLE)
+          .upsert(data, { onConflict: 'id', ignoreDuplicates: true })
+
+        if (archiveError) throw archiveError
+      }
+    }
+
+    let remove = this.client
+      .from(YJS_ENTITY_DELTAS_TABLE)
+      .delete()
+      .eq('entity_id', entityId)
+    remove = this.applyDeltaFilters(remove, options)
+
+    const { error } = await remove
+    if (error) throw error
+  }
+
+  async createVersion(version: NewVersion): Promise<VersionSummary> {
+    const { data, error } = await this.client
+      .from(YJS_ENTITY_VERSIONS_TABLE)
+      .insert({
+        entity_id: version.entityId,
+        name: version.name,
+        yjs_state: await toBytea(version.state, this.envelope),
+        author_id: version.authorId,
+        author_name: version.authorName,
+      })
+      .select(VERSION_SUMMARY_COLUMNS)
+      .single()
+
+    if (error) throw error
+    return toVersionSummary(data)
+  }
+
+  async listVersions(entityId: string): Promise<VersionSummary[]> {
+    const { data, error } = await this.client
+      .from(YJS_ENTITY_VERSIONS_TABLE)
+      .select(VERSION_SUMMARY_COLUMNS)
+      .eq('entity_id', entityId)
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+    return (data || []).map(toVersionSummary)
+  }
+
+  async loadVersion(entityId: string, versionId: string): Promise<StoredVersion | null> {
+    const { data, error } = await this.client
+      .from(YJS_ENTITY_VERSIONS_TABLE)
+      .select('*')
+      .eq('entity_id', entityId)
+      .eq('id', versionId)
+      .single()
+
+    if (error && error.code !== 'PGRST116') throw error
+    if (!data) return null
+
+    const state = await fromBytea(data.yjs_state, `Version ${versionId} of ${entityId}`)
+    return { ...toVersionSummary(data), state }
+  }
+
+  async listDrawableRows(entityId: string): Promise<DrawableRow[]> {
+    const { data, error } = await this.client
+      .from(YJS_ENTITY_DRAWABLES_TABLE)
+      .select('entity_id, drawable_id, position, type, data')
+      .eq('entity_id', entityId)
+      .order('position', { ascending: true })
+
+    if (error) throw error
+    return (data || []).map(row => ({
+      entityId: row.entity_id,
+      drawableId: row.drawable_id,
+      position: row.position,
+      type: row.type,
+      data: row.data,
+    }))
+  }
+
+  async upsertDrawableRows(rows: DrawableRow[]) {
+    if (rows.length === 0) return
+
+    const updatedAt = new Date().toISOString()
+    const { error } = await this.client
+      .from(YJS_ENTITY_DRAWABLES_TABLE)
+      .upsert(rows.map(row => ({
+        entity_id: row.entityId,
+        drawable_id: row.drawableId,
+        position: row.position,
+        type: row.type,
+        data: row.data,
+        updated_at: updatedAt,
+      })), { onConflict: 'entity_id,drawable_id' })
+
+    if (error) throw error
+  }
+
+  async deleteDrawableRows(entityId: string, drawableIds?: string[]) {
+    if (!drawableIds) {
+      const { error } = await this.client
+        .from(YJS_ENTITY_DRAWABLES_TABLE)
+        .delete()
+        .eq('entity_id', entityId)
+
+      if (error) throw error
+      return
+    }
+
+    for (let index = 0; index < drawableIds.length; index += ID_FILTER_CHUNK_SIZE) {
+      const { error } = await this.client
+        .from(YJS_ENTITY_DRAWABLES_TABLE)
+        .delete()
+        .eq('entity_id', entityId)
+        .in('drawable_id', drawableIds.slice(index, index + ID_FILTER_CHUNK_SIZE))
+
+      if (error) throw error
+    }
+  }
+
+  async createWebhook(webhook: NewWebhook) {
+    const { data, error } = await this.client
+      .from(YJS_WEBHOOKS_TABLE)
+      .insert({
+        entity_type: webhook.entityType,
+        url: webhook.url,
+        secret: webhook.secret,
+        events: webhook.events,
+      })
+      .select('*')
+      .single()
+
+    if (error) throw error
+    return toStoredWebhook(data)
+  }
+
+  async listWebhooks(entityType?: string) {
+    let query = this.client
+      .from(YJS_WEBHOOKS_TABLE)
+      .select('*')
+      .order('created_at', { ascending: true })
+    if (entityType) query = query.eq('entity_type', entityType)
+
+    const { data, error } = await query
+    if (error) throw error
+    return (data || []).map(toStoredWebhook)
+  }
+
+  async deleteWebhook(webhookId: string) {
+    const { data, error } = await this.client
+      .from(YJS_WEBHOOKS_TABLE)
+      .delete()
+      .eq('id', webhookId)
+      .select('id')
+
+    if (error) throw error
+    return (data || []).length > 0
+  }
+
+  async listEntityMembers(entityId: string) {
+    const { data, error } = await this.client
+      .from(YJS_ENTITY_MEMBERS_TABLE)
+      .select('*')
+      .eq('entity_id', entityId)
+      .order('created_at', { ascending: true })
+
+    if (error) throw error
+    return (data || []).map(toStoredEntityMember)
+  }
+
+  async createEntityMember(member: NewEntityMember) {
+    const { data, error } = await this.client
+      .from(YJS_ENTITY_MEMBERS_TABLE)
+      .insert({
+        entity_id: member.entityId,
+        user_id: member.userId,
+        email: member.email,
+        role: member.role,
+      })
+      .select('*')
+      .single()
+
+    if (error) throw error
+    return toStoredEntityMember(data)
+  }
+
+  async updateEntityMemberRole(entityId: string, memberId: string, role: EntityRole) {
+    const { data, error } = await this.client
+      .from(YJS_ENTITY_MEMBERS_TABLE)
+      .update({ role })
+      .eq('entity_id', entityId)
+      .eq('id', memberId)
+      .select('id')
+
+    if (error) throw error
+    return (data || []).length > 0
+  }
+
+  async deleteEntityMember(entityId: string, memberId: string) {
+    const { data, error } = await this.client
+      .from(YJS_ENTITY_MEMBERS_TABLE)
+      .delete()
+      .eq('entity_id', entityId)
+      .eq('id', memberId)
+      .select('id')
+
+    if (error) throw error
+    return (data || []).length > 0
+  }
+}
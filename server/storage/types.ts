@@ -0,0 +1,217 @@
+/**
+ * Storage adapter contract used by the persistence extensions.
+ *
+ * An adapter stores these kinds of records:
+ * - entities: the merged Yjs state of a document (yjs_entities)
+ * - deltas: the incremental updates applied to it (yjs_entity_deltas)
+ * - versions: named snapshots of an entity (yjs_entity_versions)
+ * - drawable rows: the relational projection of drawables (yjs_entity_drawables)
+ * - webhooks: endpoints notified of entity changes (yjs_webhooks)
+ * - members: who may open an entity and with which role (yjs_entity_members)
+ */
+
+import { EntityRole } from 'collaborative-editor-shared'
+
+export interface StoredEntity {
+  id: string
+  type: string
+  state: Uint8Array | null
+  metadata: Record<string, any>
+  /** Merge of all compacted deltas, the base for point-in-time reconstruction */
+  compactedState: Uint8Array | null
+  compactedUntil: string | null
+  compactedDeltaId: number | null
+  /** SVG preview of the content, rendered on store */
+  thumbnail: string | null
+  /** Set when the entity is in the trash */
+  deletedAt: string | null
+  /** Set when the content was purged, only the id is kept so it can't be recreated */
+  purgedAt: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+/** An entity without its binary state */
+export type EntityHeader = Omit<StoredEntity, 'state' | 'compactedState'>
+
+/** Values derived from the document that are stored with its state */
+export interface EntityProjection {
+  /** Merged into the stored metadata, other keys are kept */
+  metadata?: Record<string, any>
+  thumbnail?: string | null
+}
+
+/**
+ * How an update reached the server. `rejected` marks an update the validation
+ * gate reverted and the revert itself; they are kept so the log replays
+ * correctly, but are not part of the visible history.
+ */
+export type DeltaOrigin = 'websocket' | 'server' | 'http' | 'rejected'
+
+export interface StoredDelta {
+  id: number
+  entityId: string
+  entityType: string
+  update: Uint8Array
+  /** Per-entity sequence number starting at 1, assigned by the adapter. Null for legacy deltas */
+  seq: number | null
+  /** Authenticated user of the connection that sent the update */
+  userId: string | null
+  /** Yjs client ids whose structs or deletions are in the update */
+  clientIds: number[]
+  /** Clock range [from, to) of the structs in the update per Yjs client id */
+  clocks: Record<string, [number, number]>
+  origin: DeltaOrigin | null
+  createdAt: string
+}
+
+export type NewDelta = Omit<StoredDelta, 'id' | 'seq' | 'createdAt'>
+
+export interface ListDeltasOptions {
+  /** Only deltas created strictly before this date */
+  before?: Date
+  /** Only deltas with an id greater than this one */
+  afterId?: number
+  /** Only deltas with an id lower than or equal to this one */
+  upToId?: number
+  limit?: number
+}
+
+export interface CompactedStateWrite {
+  compactedState: Uint8Array
+  compactedUntil: string
+  compactedDeltaId: number
+  /** The write is skipped if the entity was updated since this timestamp */
+  expectedUpdatedAt: string
+}
+
+export interface StoredVersion {
+  id: string
+  entityId: string
+  name: string
+  state: Uint8Array
+  authorId: string | null
+  authorName: string | null
+  createdAt: string
+}
+
+export type NewVersion = Omit<StoredVersion, 'id' | 'createdAt'>
+export type VersionSummary = Omit<StoredVersion, 'state'>
+
+export interface ListEntitiesOptions {
+  type?: string
+  /** Only entities with an id greater than this one (ids are listed in order) */
+  afterId?: string
+  limit?: number
+}
+
+/** A drawable materialized as a row for SQL reporting */
+export interface DrawableRow {
+  entityId: string
+  drawableId: string
+  /** Index in the drawables array (z-order) */
+  position: number
+  type: string
+  data: Record<string, any>
+}
+
+export type WebhookEvent = 'entity.created' | 'entity.changed' | 'entity.deleted'
+
+export interface StoredWebhook {
+  id: string
+  /** Entity type whose events are sent, e.g. `document` */
+  entityType: string
+  url: string
+  /** Key of the HMAC-SHA256 signature sent with every delivery */
+  secret: string
+  events: WebhookEvent[]
+  createdAt: string
+}
+
+export type NewWebhook = Omit<StoredWebhook, 'id' | 'createdAt'>
+
+export interface StoredEntityMember {
+  id: string
+  entityId: string
+  /** Supabase user id, null for members invited by email */
+  userId: string | null
+  /** Lower case email, matched against the email of the access token */
+  email: string | null
+  role: EntityRole
+  createdAt: string
+}
+
+export type NewEntityMember = Omit<StoredEntityMember, 'id' | 'createdAt'>
+
+/** A member stored together with a new entity */
+export type InitialEntityMember = Omit<NewEntityMember, 'entityId'>
+
+export interface StorageAdapter {
+  readonly name: string
+
+  loadEntity(entityId: string): Promise<StoredEntity | null>
+  loadState(entityId: string): Promise<Uint8Array | null>
+  loadEntityHeader(entityId: string): Promise<EntityHeader | null>
+  /** Entity ids in ascending order */
+  listEntityIds(options?: ListEntitiesOptions): Promise<string[]>
+  storeState(entityId: string, entityType: string, state: Uint8Array, projection?: EntityProjection): Promise<void>
+  /**
+   * Stores a new entity together with its initial members, so it never exists
+   * without them (nobody could open it). Fails when the id is taken.
+   */
+  createEntity(
+    entityId: string,
+    entityType: string,
+    state: Uint8Array,
+    projection: EntityProjection,
+    members: InitialEntityMember[]
+  ): Promise<void>
+  /** Moves an entity to the trash (a date) or out of it (null) */
+  setEntityDeletedAt(entityId: string, deletedAt: string | null): Promise<void>
+  /**
+   * Removes the content of an entity with its deltas, versions and drawable rows.
+   * The entity itself stays as a tombstone (purgedAt) so stale clients can't recreate it.
+   */
+  purgeEntity(entityId: string): Promise<void>
+
+  /** Stores a delta with the next sequence number of its entity */
+  appendDelta(delta: NewDelta): Promise<void>
+  /** Deltas of an entity ordered by id (oldest first) */
+  listDeltas(entityId: string, options?: ListDeltasOptions): Promise<StoredDelta[]>
+  /** Number of deltas of an entity matching the filters (`limit` is ignored) */
+  countDeltas(entityId: string, options?: ListDeltasOptions): Promise<number>
+  /**
+   * Entities with deltas created before `before`, optionally only deltas of one entity
+   * type, ordered by id. Pages continue after the last id of the previous one (`after`).
+   */
+  listEntitiesWithDeltasBefore(before: Date, limit?: number, entityType?: string, after?: string): Promise<string[]>
+
+  /** Returns false when the entity changed concurrently and nothing was written */
+  writeCompactedState(entityId: string, state: Uint8Array, write: CompactedStateWrite): Promise<boolean>
+  /** Deletes the matching deltas, optionally keeping a copy in the archive */
+  removeDeltas(entityId: string, options: ListDeltasOptions, { archive }: { archive: boolean }): Promise<void>
+
+  createVersion(version: NewVersion): Promise<VersionSummary>
+  /** Versions of an entity, newest first */
+  listVersions(entityId: string): Promise<VersionSummary[]>
+  loadVersion(entityId: string, versionId: string): Promise<StoredVersion | null>
+
+  listDrawableRows(entityId: string): Promise<DrawableRow[]>
+  upsertDrawableRows(rows: DrawableRow[]): Promise<void>
+  /** Deletes the given rows of an entity, or all of them without `drawableIds` */
+  deleteDrawableRows(entityId: string, drawableIds?: string[]): Promise<void>
+
+  createWebhook(webhook: NewWebhook): Promise<StoredWebhook>
+  /** Webhooks of an entity type, or all of them, oldest first */
+  listWebhooks(entityType?: string): Promise<StoredWebhook[]>
+  /** Returns false when no webhook has this id */
+  deleteWebhook(webhookId: string): Promise<boolean>
+
+  /** Members of an entity, oldest first */
+  listEntityMembers(entityId: string): Promise<StoredEntityMember[]>
+  createEntityMember(member: NewEntityMember): Promise<StoredEntityMember>
+  /** Returns false when the entity has no member with this id */
+  updateEntityMemberRole(entityId: string, memberId: string, role: EntityRole): Promise<boolean>
+  /** Returns false when the entity has no member with this id */
+  deleteEntityMember(entityId: string, memberId: string): Promise<boolean>
+}
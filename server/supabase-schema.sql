@@ -80,3 +80,378 @@ CREATE TRIGGER update_yjs_entities_updated_at
     FOR EACH ROW
     EXECUTE FUNCTION update_updated_at_column();
 
+
+-- ================================================
+-- Delta Compaction
+-- ================================================
+-- The compaction job folds old rows of yjs_entity_deltas into
+-- yjs_entities.yjs_state and records how far it got per entity.
+ALTER TABLE yjs_entities ADD COLUMN IF NOT EXISTS compacted_until TIMESTAMPTZ;
+ALTER TABLE yjs_entities ADD COLUMN IF NOT EXISTS compacted_delta_id BIGINT;
+ALTER TABLE yjs_entities ADD COLUMN IF NOT EXISTS compacted_state BYTEA;
+
+COMMENT ON COLUMN yjs_entities.compacted_until IS 'created_at of the newest delta merged into yjs_state (compaction watermark).';
+COMMENT ON COLUMN yjs_entities.compacted_delta_id IS 'id of the newest delta merged into yjs_state.';
+COMMENT ON COLUMN yjs_entities.compacted_state IS 'Merge of all compacted deltas only, the base for point-in-time reconstruction.';
+
+-- Merged deltas are moved here when COMPACTION_MODE=archive.
+CREATE TABLE IF NOT EXISTS yjs_entity_deltas_archive (
+    id BIGINT PRIMARY KEY,
+    entity_id UUID NOT NULL,
+    entity_type TEXT NOT NULL,
+    update BYTEA NOT NULL,
+    client_id TEXT,
+    clock BIGINT,
+    created_at TIMESTAMPTZ,
+    archived_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE yjs_entity_deltas_archive IS 'Deltas that were already merged into yjs_entities.yjs_state by the compaction job.';
+
+CREATE INDEX IF NOT EXISTS idx_yjs_entity_deltas_archive_entity_id ON yjs_entity_deltas_archive(entity_id);
+CREATE INDEX IF NOT EXISTS idx_yjs_entity_deltas_entity_created ON yjs_entity_deltas(entity_id, created_at);
+
+-- ================================================
+-- Entity Versions (Named Snapshots)
+-- ================================================
+-- Named, timestamped snapshots of an entity that can be restored later.
+CREATE TABLE IF NOT EXISTS yjs_entity_versions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    entity_id UUID NOT NULL,
+    name TEXT NOT NULL,
+    yjs_state BYTEA NOT NULL,
+    author_id TEXT,
+    author_name TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE yjs_entity_versions IS 'Named snapshots of yjs_entities, restorable as forward Yjs updates.';
+COMMENT ON COLUMN yjs_entity_versions.yjs_state IS 'Full Yjs state of the entity when the version was created.';
+
+CREATE INDEX IF NOT EXISTS idx_yjs_entity_versions_entity_created ON yjs_entity_versions(entity_id, created_at DESC);
+
+-- ================================================
+-- Delta Metadata (Identity, Yjs Clients, Sequence)
+-- ================================================
+-- Who sent each update, which Yjs clients it touches, how it reached the server,
+-- and a gap-free sequence number per entity. client_id and clock are no longer written.
+ALTER TABLE yjs_entity_deltas ADD COLUMN IF NOT EXISTS seq BIGINT;
+ALTER TABLE yjs_entity_deltas ADD COLUMN IF NOT EXISTS user_id TEXT;
+ALTER TABLE yjs_entity_deltas ADD COLUMN IF NOT EXISTS client_ids BIGINT[] DEFAULT '{}';
+ALTER TABLE yjs_entity_deltas ADD COLUMN IF NOT EXISTS clocks JSONB DEFAULT '{}';
+ALTER TABLE yjs_entity_deltas ADD COLUMN IF NOT EXISTS origin TEXT;
+
+ALTER TABLE yjs_entity_deltas_archive ADD COLUMN IF NOT EXISTS seq BIGINT;
+ALTER TABLE yjs_entity_deltas_archive ADD COLUMN IF NOT EXISTS user_id TEXT;
+ALTER TABLE yjs_entity_deltas_archive ADD COLUMN IF NOT EXISTS client_ids BIGINT[] DEFAULT '{}';
+ALTER TABLE yjs_entity_deltas_archive ADD COLUMN IF NOT EXISTS clocks JSONB DEFAULT '{}';
+ALTER TABLE yjs_entity_deltas_archive ADD COLUMN IF NOT EXISTS origin TEXT;
+
+COMMENT ON COLUMN yjs_entity_deltas.seq IS 'Sequence number of the delta within its entity, starting at 1.';
+COMMENT ON COLUMN yjs_entity_deltas.user_id IS 'Authenticated user of the connection that sent the update.';
+COMMENT ON COLUMN yjs_entity_deltas.client_ids IS 'Yjs client ids whose structs or deletions are in the update.';
+COMMENT ON COLUMN yjs_entity_deltas.clocks IS 'Clock range [from, to) of the structs in the update per Yjs client id.';
+COMMENT ON COLUMN yjs_entity_deltas.origin IS 'How the update reached the server: websocket, server or http, rejected for updates the validation gate reverted and their reverts.';
+COMMENT ON COLUMN yjs_entity_deltas.client_id IS 'Deprecated, not written anymore (see user_id and client_ids).';
+COMMENT ON COLUMN yjs_entity_deltas.clock IS 'Deprecated, not written anymore (see clocks).';
+
+-- Last sequence number per entity. Kept outside the deltas so numbering survives compaction.
+CREATE TABLE IF NOT EXISTS yjs_entity_delta_seqs (
+    entity_id UUID PRIMARY KEY,
+    last_seq BIGINT NOT NULL DEFAULT 0
+);
+
+CREATE OR REPLACE FUNCTION assign_yjs_entity_delta_seq()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- The upsert locks the counter row, so concurrent inserts are numbered one after another
+    INSERT INTO yjs_entity_delta_seqs (entity_id, last_seq)
+    VALUES (NEW.entity_id, 1)
+    ON CONFLICT (entity_id) DO UPDATE SET last_seq = yjs_entity_delta_seqs.last_seq + 1
+    RETURNING last_seq INTO NEW.seq;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS assign_yjs_entity_delta_seq ON yjs_entity_deltas;
+CREATE TRIGGER assign_yjs_entity_delta_seq
+    BEFORE INSERT ON yjs_entity_deltas
+    FOR EACH ROW
+    EXECUTE FUNCTION assign_yjs_entity_delta_seq();
+
+-- Number existing deltas in id order and seed the counters
+WITH numbered AS (
+    SELECT id, ROW_NUMBER() OVER (PARTITION BY entity_id ORDER BY id) AS seq
+    FROM yjs_entity_deltas
+)
+UPDATE yjs_entity_deltas d SET seq = numbered.seq
+FROM numbered
+WHERE d.id = numbered.id AND NOT EXISTS (SELECT 1 FROM yjs_entity_delta_seqs);
+
+INSERT INTO yjs_entity_delta_seqs (entity_id, last_seq)
+SELECT entity_id, MAX(seq) FROM yjs_entity_deltas WHERE seq IS NOT NULL GROUP BY entity_id
+ON CONFLICT (entity_id) DO UPDATE SET last_seq = GREATEST(yjs_entity_delta_seqs.last_seq, EXCLUDED.last_seq);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_yjs_entity_deltas_entity_seq ON yjs_entity_deltas(entity_id, seq);
+CREATE INDEX IF NOT EXISTS idx_yjs_entity_deltas_user_id ON yjs_entity_deltas(user_id);
+
+-- ================================================
+-- Binary Format of Yjs Data
+-- ================================================
+-- yjs_state, compacted_state and update hold an envelope written by the server
+-- (storage/envelope.ts): magic 0xC759, a format version byte, a codec byte
+-- (0 none, 1 gzip, 2 brotli) and the payload. Rows written before the envelope
+-- hold the raw Yjs update and are still read. No migration is needed.
+
+COMMENT ON COLUMN yjs_entities.yjs_state IS 'Yjs state in the server envelope format (version + codec header, optionally gzip/brotli compressed).';
+COMMENT ON COLUMN yjs_entities.compacted_state IS 'Merge of all compacted deltas only, the base for point-in-time reconstruction. Envelope format.';
+COMMENT ON COLUMN yjs_entity_deltas.update IS 'Yjs update in the server envelope format.';
+COMMENT ON COLUMN yjs_entity_versions.yjs_state IS 'Full Yjs state of the entity when the version was created. Envelope format.';
+
+-- ================================================
+-- Drawables Projection (Reporting)
+-- ================================================
+-- One row per drawable of each entity, maintained by the DrawableProjection
+-- extension (DRAWABLE_PROJECTION=true) whenever a document is stored. It is a
+-- derived copy of yjs_state: it can be dropped and rebuilt at any time through
+-- POST /projections/drawables/rebuild.
+
+CREATE TABLE IF NOT EXISTS yjs_entity_drawables (
+    entity_id UUID NOT NULL REFERENCES yjs_entities(id) ON DELETE CASCADE,
+    drawable_id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    type TEXT NOT NULL,
+    data JSONB NOT NULL,
+    fill TEXT GENERATED ALWAYS AS (data->>'fill') STORED,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (entity_id, drawable_id)
+);
+
+COMMENT ON TABLE yjs_entity_drawables IS 'Relational projection of the drawables of each entity, derived from yjs_state.';
+COMMENT ON COLUMN yjs_entity_drawables.position IS 'Index of the drawable in the drawables array (z-order).';
+COMMENT ON COLUMN yjs_entity_drawables.data IS 'All fields of the drawable as validated by its schema.';
+
+CREATE INDEX IF NOT EXISTS idx_yjs_entity_drawables_type ON yjs_entity_drawables(type);
+CREATE INDEX IF NOT EXISTS idx_yjs_entity_drawables_fill ON yjs_entity_drawables(fill);
+
+-- ================================================
+-- Thumbnails
+-- ================================================
+-- SVG preview of the drawables of an entity, rendered by the server whenever
+-- the document is stored (which includes the final store before unloading).
+
+ALTER TABLE yjs_entities ADD COLUMN IF NOT EXISTS thumbnail_svg TEXT;
+
+COMMENT ON COLUMN yjs_entities.thumbnail_svg IS 'Small SVG preview of the content, rendered by the server on store.';
+
+-- ================================================
+-- Trash (Soft Delete)
+-- ================================================
+-- Deleting a document moves it to the trash by setting deleted_at. The server
+-- refuses to open trashed documents until they are restored. Deleting from the
+-- trash purges the content, deltas, versions and projections and sets
+-- purged_at; the row stays as a tombstone.
+
+ALTER TABLE yjs_entities ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+ALTER TABLE yjs_entities ADD COLUMN IF NOT EXISTS purged_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN yjs_entities.deleted_at IS 'When the entity was moved to the trash, NULL when it is not in the trash.';
+COMMENT ON COLUMN yjs_entities.purged_at IS 'When the content of a trashed entity was permanently removed.';
+
+CREATE INDEX IF NOT EXISTS idx_yjs_entities_deleted_at ON yjs_entities(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- ================================================
+-- Draft Branches
+-- ================================================
+-- A branch is a regular entity whose metadata holds branch_of (parent id),
+-- branch_name and branch_state_vector (base64 Yjs state vector of the parent
+-- when the branch was created). The home page hides branches, each document
+-- lists its own.
+
+CREATE INDEX IF NOT EXISTS idx_yjs_entities_branch_of ON yjs_entities((metadata->>'branch_of'))
+    WHERE metadata ? 'branch_of';
+
+-- ================================================
+-- Webhooks
+-- ================================================
+-- Endpoints called when entities of a type are created, changed or deleted.
+-- Deliveries are signed with HMAC-SHA256 using the secret, so the table is only
+-- readable with the service key.
+
+CREATE TABLE IF NOT EXISTS yjs_webhooks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    entity_type TEXT NOT NULL,
+    url TEXT NOT NULL,
+    secret TEXT NOT NULL,
+    events TEXT[] NOT NULL DEFAULT '{entity.created,entity.changed,entity.deleted}',
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE yjs_webhooks IS 'Endpoints notified of entity changes, per entity type.';
+COMMENT ON COLUMN yjs_webhooks.events IS 'Subset of entity.created, entity.changed and entity.deleted.';
+
+CREATE INDEX IF NOT EXISTS idx_yjs_webhooks_entity_type ON yjs_webhooks(entity_type);
+
+-- No policies: only the service key (which bypasses RLS) can read the secrets
+ALTER TABLE yjs_webhooks ENABLE ROW LEVEL SECURITY;
+
+-- ================================================
+-- Members (Access Control)
+-- ================================================
+-- Who may open an entity: owners manage members and delete the entity, editors
+-- change the content, viewers only read it. Members are matched by user id, or
+-- by the (lower case) email of their access token when invited by email.
+-- Entities without members are not accessible, existing entities get an owner
+-- by the backfill below.
+
+CREATE TABLE IF NOT EXISTS yjs_entity_members (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    entity_id UUID NOT NULL REFERENCES yjs_entities(id) ON DELETE CASCADE,
+    user_id UUID,
+    email TEXT,
+    role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (user_id IS NOT NULL OR email IS NOT NULL)
+);
+
+COMMENT ON TABLE yjs_entity_members IS 'Members of an entity with their role (owner, editor or viewer).';
+COMMENT ON COLUMN yjs_entity_members.email IS 'Lower case email, matches members invited before their first sign-in.';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_yjs_entity_members_user ON yjs_entity_members(entity_id, user_id)
+    WHERE user_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_yjs_entity_members_email ON yjs_entity_members(entity_id, email)
+    WHERE user_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_yjs_entity_members_user_id ON yjs_entity_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_yjs_entity_members_email_lookup ON yjs_entity_members(email);
+
+-- Backfill: entities without members are owned by the first user who edited them
+-- (oldest delta with a user, live or archived) or, failing that, who saved a
+-- version of them. Entities nobody can be found for go to app.default_owner_id
+-- when it is set before running this file:
+--   SET app.default_owner_id = '<admin user uuid>';
+-- Running it again only touches entities that still have no members.
+INSERT INTO yjs_entity_members (entity_id, user_id, role)
+SELECT DISTINCT ON (authors.entity_id) authors.entity_id, authors.user_id::UUID, 'owner'
+FROM (
+    SELECT entity_id, user_id, created_at, 0 AS source FROM yjs_entity_deltas
+    UNION ALL
+    SELECT entity_id, user_id, created_at, 0 FROM yjs_entity_deltas_archive
+    UNION ALL
+    -- Versions only decide when no delta has a user
+    SELECT entity_id, author_id, created_at, 1 FROM yjs_entity_versions
+) AS authors
+JOIN yjs_entities e ON e.id = authors.entity_id
+WHERE authors.user_id ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+  AND NOT EXISTS (SELECT 1 FROM yjs_entity_members m WHERE m.entity_id = authors.entity_id)
+ORDER BY authors.entity_id, authors.source, authors.created_at NULLS LAST;
+
+INSERT INTO yjs_entity_members (entity_id, user_id, role)
+SELECT e.id, NULLIF(current_setting('app.default_owner_id', true), '')::UUID, 'owner'
+FROM yjs_entities e
+WHERE NULLIF(current_setting('app.default_owner_id', true), '') IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM yjs_entity_members m WHERE m.entity_id = e.id);
+
+-- The server uses the service key, which bypasses RLS. Signed-in clients read
+-- entity rows (the home page listing) directly, and only see their own.
+ALTER TABLE yjs_entity_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users read their own memberships" ON yjs_entity_members;
+CREATE POLICY "Users read their own memberships" ON yjs_entity_members
+    FOR SELECT TO authenticated
+    USING (user_id = auth.uid() OR (user_id IS NULL AND email = lower(auth.jwt() ->> 'email')));
+
+ALTER TABLE yjs_entities ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members read their entities" ON yjs_entities;
+CREATE POLICY "Members read their entities" ON yjs_entities
+    FOR SELECT TO authenticated
+    USING (EXISTS (
+        SELECT 1 FROM yjs_entity_members m
+        WHERE m.entity_id = yjs_entities.id
+          AND (m.user_id = auth.uid() OR (m.user_id IS NULL AND m.email = lower(auth.jwt() ->> 'email')))
+    ));
+
+-- Content, history and projections are only read through the server
+ALTER TABLE yjs_entity_deltas ENABLE ROW LEVEL SECURITY;
+ALTER TABLE yjs_entity_deltas_archive ENABLE ROW LEVEL SECURITY;
+ALTER TABLE yjs_entity_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE yjs_entity_drawables ENABLE ROW LEVEL SECURITY;
+ALTER TABLE yjs_entity_delta_seqs ENABLE ROW LEVEL SECURITY;
+
+-- ================================================
+-- Entity Creation
+-- ================================================
+-- The server creates an entity and its initial members (owner, members copied
+-- to a branch) in one transaction, so a failed member insert can't leave an
+-- entity behind that nobody can open.
+CREATE OR REPLACE FUNCTION create_yjs_entity(
+    p_id UUID,
+    p_type TEXT,
+    p_state BYTEA,
+    p_metadata JSONB,
+    p_thumbnail TEXT,
+    p_members JSONB
+) RETURNS VOID AS $$
+BEGIN
+    INSERT INTO yjs_entities (id, type, yjs_state, metadata, thumbnail_svg)
+    VALUES (p_id, p_type, p_state, COALESCE(p_metadata, '{}'), p_thumbnail);
+
+    INSERT INTO yjs_entity_members (entity_id, user_id, email, role)
+    SELECT p_id, (member ->> 'user_id')::UUID, member ->> 'email', member ->> 'role'
+    FROM jsonb_array_elements(COALESCE(p_members, '[]')) AS member;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the server (service key) may call it
+REVOKE EXECUTE ON FUNCTION create_yjs_entity(UUID, TEXT, BYTEA, JSONB, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- ================================================
+-- Entity State
+-- ================================================
+-- Stores the state of an entity. The projected metadata is merged into the stored
+-- keys by the database, a read-modify-write by the server could drop keys written
+-- in between. The thumbnail is only changed when p_set_thumbnail is true.
+CREATE OR REPLACE FUNCTION store_yjs_entity_state(
+    p_id UUID,
+    p_type TEXT,
+    p_state BYTEA,
+    p_metadata JSONB,
+    p_thumbnail TEXT,
+    p_set_thumbnail BOOLEAN
+) RETURNS VOID AS $$
+    INSERT INTO yjs_entities AS e (id, type, yjs_state, metadata, thumbnail_svg)
+    VALUES (p_id, p_type, p_state, COALESCE(p_metadata, '{}'), p_thumbnail)
+    ON CONFLICT (id) DO UPDATE SET
+        type = EXCLUDED.type,
+        yjs_state = EXCLUDED.yjs_state,
+        metadata = COALESCE(e.metadata, '{}') || COALESCE(p_metadata, '{}'),
+        thumbnail_svg = CASE WHEN p_set_thumbnail THEN EXCLUDED.thumbnail_svg ELSE e.thumbnail_svg END;
+$$ LANGUAGE sql;
+
+REVOKE EXECUTE ON FUNCTION store_yjs_entity_state(UUID, TEXT, BYTEA, JSONB, TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- ================================================
+-- Retention
+-- ================================================
+-- Entities with deltas older than the retention watermark, paged by entity id so a
+-- single entity with many deltas takes one row of a page.
+CREATE OR REPLACE FUNCTION list_yjs_entities_with_deltas_before(
+    p_before TIMESTAMPTZ,
+    p_entity_type TEXT,
+    p_after UUID,
+    p_limit INTEGER
+) RETURNS TABLE (entity_id UUID) AS $$
+    SELECT e.id
+    FROM yjs_entities e
+    WHERE (p_after IS NULL OR e.id > p_after)
+      AND EXISTS (
+          SELECT 1 FROM yjs_entity_deltas d
+          WHERE d.entity_id = e.id
+            AND d.created_at < p_before
+            AND (p_entity_type IS NULL OR d.entity_type = p_entity_type)
+      )
+    ORDER BY e.id
+    LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+
+REVOKE EXECUTE ON FUNCTION list_yjs_entities_with_deltas_before(TIMESTAMPTZ, TEXT, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,114 @@
+import * as Y from 'yjs'
+import { z } from 'zod'
+import { EntityType, entityConfigs } from './schemas.js'
+
+export function isEntityType(type: string): type is EntityType {
+  return Object.prototype.hasOwnProperty.call(entityConfigs, type)
+}
+
+/**
+ * Creates a Y.Doc with the typed top-level structure of `entityType`
+ * and applies `state` to it.
+ */
+export function buildEntityDoc(entityType: string, state?: Uint8Array | null) {
+  const doc = new Y.Doc()
+  if (isEntityType(entityType)) entityConfigs[entityType].yjsBuilder(doc)
+  if (state) Y.applyUpdate(doc, state)
+  return doc
+}
+
+/**
+ * Reads the top-level fields of an entity as plain JSON
+ * (Y.Text as a string, Y.Array and Y.Map through toJSON).
+ */
+export function readEntityContent(doc: Y.Doc, entityType: EntityType) {
+  // Top-level types of a doc built from updates are untyped until requested
+  entityConfigs[entityType].yjsBuilder(doc)
+
+  const schemaDef = (entityConfigs[entityType].schema as z.ZodObject<any>).shape
+  const content: { [key: string]: any } = {}
+
+  for (const key of Object.keys(schemaDef)) {
+    const ytype = doc.get(key)
+    if (ytype instanceof Y.Text) {
+      content[key] = ytype.toString()
+    } else if (ytype instanceof Y.Array || ytype instanceof Y.Map) {
+      content[key] = ytype.toJSON()
+    }
+  }
+  return content
+}
+
+function getProjections(entityType: string): Record<string, string> {
+  if (!isEntityType(entityType)) return {}
+  const config: { projections?: Record<string, string> } = entityConfigs[entityType]
+  return config.projections ?? {}
+}
+
+/**
+ * Reads the projected metadata fields of an entity from its Y.Text fields.
+ * Empty texts are left out so they never clear an existing value.
+ */
+export function projectEntityMetadata(entityType: string, doc: Y.Doc) {
+  const metadata: Record<string, string> = {}
+  for (const [key, textName] of Object.entries(getProjections(entityType))) {
+    const value = doc.getText(textName).toString().trim()
+    if (value) metadata[key] = value
+  }
+  return metadata
+}
+
+/**
+ * Fills empty projected Y.Text fields from metadata, e.g. the title an entity
+ * was created with. Returns whether the document changed.
+ */
+export function seedProjectedFields(entityType: string, doc: Y.Doc, metadata: Record<string, any>) {
+  let changed = false
+  doc.transact(() => {
+    for (const [key, textName] of Object.entries(getProjections(entityType))) {
+      const text = doc.getText(textName)
+      if (text.length === 0 && typeof metadata[key] === 'string' && metadata[key]) {
+        text.insert(0, metadata[key])
+        changed = true
+      }
+    }
+  })
+  return changed
+}
+
+/**
+ * Replaces projected Y.Text fields with the metadata values given, e.g. the
+ * title of a copy. Keys without a value are left as they are.
+ */
+export function writeProjectedFields(entityType: string, doc: Y.Doc, metadata: Record<string, any>) {
+  doc.transact(() => {
+    for (const [key, textName] of Object.entries(getProjections(entityType))) {
+      if (typeof metadata[key] !== 'string' || !metadata[key]) continue
+      const text = doc.getText(textName)
+      text.delete(0, text.length)
+      text.insert(0, metadata[key])
+    }
+  })
+}
+
+/**
+ * Validates the content of a Y.Doc against the schema of `entityType`.
+ */
+export function validateEntityDoc(entityType: string, doc: Y.Doc) {
+  if (!isEntityType(entityType)) {
+    return { success: false as const, error: new Error(`Unknown entity type "${entityType}".`) }
+  }
+  return entityConfigs[entityType].schema.safeParse(readEntityContent(doc, entityType))
+}
+
+/**
+ * Turns a validation error into short `path: message` lines.
+ */
+export function describeValidationError(error: unknown): string[] {
+  if (error instanceof z.ZodError) {
+    return error.issues.map((issue) =>
+      issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+    )
+  }
+  return [error instanceof Error ? error.message : String(error)]
+}
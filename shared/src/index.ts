@@ -0,0 +1,3 @@
+export * from './schemas.js'
+export * from './entities.js'
+export * from './messages.js'
@@ -0,0 +1,61 @@
+/**
+ * Stateless messages the server sends to clients over the Hocuspocus
+ * connection (`connection.sendStateless` / provider `onStateless`).
+ */
+
+export interface UpdateRejectedMessage {
+  type: 'update-rejected'
+  entityId: string
+  /** Human readable validation issues, e.g. `drawables.0.width: expected number` */
+  issues: string[]
+}
+
+/** The entity was moved to the trash (or purged), the server closes the connection next */
+export interface EntityDeletedMessage {
+  type: 'entity-deleted'
+  entityId: string
+  /** True when the content was permanently removed, false when it can still be restored */
+  purged: boolean
+}
+
+/** Role of a member of an entity: owners manage members, viewers can't edit */
+export type EntityRole = 'owner' | 'editor' | 'viewer'
+
+export const entityRoles: EntityRole[] = ['owner', 'editor', 'viewer']
+
+/**
+ * Role of the connected user, sent once connected and again whenever it changes.
+ * Null when the user is no longer a member, the server stops syncing right after.
+ */
+export interface AccessMessage {
+  type: 'access'
+  entityId: string
+  role: EntityRole | null
+}
+
+export type ServerMessage = UpdateRejectedMessage | EntityDeletedMessage | AccessMessage
+
+/**
+ * Close event the server rejects connections to deleted entities with, for
+ * clients that were offline when the `entity-deleted` message was sent.
+ */
+export const EntityDeletedCloseEvent = {
+  code: 4410,
+  reason: 'Entity deleted',
+}
+
+export function encodeServerMessage(message: ServerMessage) {
+  return JSON.stringify(message)
+}
+
+/**
+ * Parses a stateless payload, returns null for payloads that are not server messages.
+ */
+export function parseServerMessage(payload: string): ServerMessage | null {
+  try {
+    const message = JSON.parse(payload)
+    return message && typeof message.type === 'string' ? message : null
+  } catch {
+    return null
+  }
+}
@@ -37,6 +37,22 @@ export const yMapSchema = <T extends z.ZodTypeAny>(valueSchema: T) =>
     return yMap
   })
 
+/**
+ * zod schema for an object stored as a Y.Map of its fields.
+ * this is how drawables and comments are kept in their Y.Array.
+ *
+ * @param objectSchema The schema for the object.
+ * @returns A Zod schema that transforms a validated object into a Y.Map.
+ */
+export const yMapObjectSchema = <T extends z.ZodTypeAny>(objectSchema: T) =>
+  objectSchema.transform((obj) => {
+    const yMap = new Y.Map()
+    for (const [key, value] of Object.entries(obj as Record<string, unknown>)) {
+      yMap.set(key, value)
+    }
+    return yMap
+  })
+
 // ====================================================================================
 // Drawable Schemas (Polymorphic)
 // ====================================================================================
@@ -79,11 +95,12 @@ export const commentSchema = z.object({
   text: z.string(),
   timestamp: z.string().datetime(),
 })
+export type Comment = z.infer<typeof commentSchema>
 
 export const documentSchema = z.object({
   name: yTextSchema,
-  drawables: yArraySchema(yMapSchema(drawableSchema)),
-  comments: yArraySchema(yMapSchema(commentSchema)),
+  drawables: yArraySchema(yMapObjectSchema(drawableSchema)),
+  comments: yArraySchema(yMapObjectSchema(commentSchema)),
 })
 export type Document = z.infer<typeof documentSchema>
 
@@ -95,6 +112,21 @@ export const entityConfigs = {
   document: {
     schema: documentSchema,
     tableName: 'documents',
+    /**
+     * Metadata fields the server keeps in sync with top-level Y.Text fields
+     * (metadata key → Y.Text name), so lists can show them without loading the document.
+     */
+    projections: {
+      title: 'name',
+    },
+    /**
+     * Top-level array the server can materialize as SQL rows (yjs_entity_drawables),
+     * one row per item that passes `itemSchema`.
+     */
+    relationalProjection: {
+      field: 'drawables',
+      itemSchema: drawableSchema,
+    },
     /**
      * Builder function to initialize the Yjs document structure for a 'document' entity.
      * @param doc The Y.Doc instance to populate.
@@ -173,25 +205,21 @@ const testSchemas = () => {
     name: 'My Document',
     drawables: [
       {
-        rect1: {
-          type: 'rectangle',
-          id: 'rect1',
-          x: 10,
-          y: 20,
-          width: 100,
-          height: 50,
-          fill: 'red',
-        },
+        type: 'rectangle',
+        id: 'rect1',
+        x: 10,
+        y: 20,
+        width: 100,
+        height: 50,
+        fill: 'red',
       },
     ],
     comments: [
       {
-        comment1: {
-          id: 'c1',
-          userId: 'user1',
-          text: 'This is a comment',
-          timestamp: new Date().toISOString(),
-        },
+        id: 'c1',
+        userId: 'user1',
+        text: 'This is a comment',
+        timestamp: new Date().toISOString(),
       },
     ],
   }
@@ -9,6 +9,8 @@ import { AppOnlineUsers } from '@/components/AppOnlineUsers'
 import { DocumentCard, Document } from '@/components/DocumentCard'
 import { getShortName } from '@/lib/userUtils'
 import { useAppPresence } from '@/hooks/useAppPresence'
+import { entitiesApi } from '@/lib/server-api'
+import { entityRoles } from 'collaborative-editor-shared'
 
 function HomePageContent() {
   const router = useRouter()
@@ -23,6 +25,7 @@ function HomePageContent() {
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null)
   const [deleting, setDeleting] = useState(false)
   const [showUserMenu, setShowUserMenu] = useState(false)
+  const [showTrash, setShowTrash] = useState(false)
   
   const otherUsers = onlineUsers.filter(u => u.clientId !== localClientId)
 
@@ -32,18 +35,32 @@ function HomePageContent() {
 
   useEffect(() => {
     fetchDocuments()
-  }, [])
+  }, [showTrash, user?.id])
   
   const fetchDocuments = async () => {
+    if (!user) return
     try {
       setLoading(true)
       setError(null)
       
-      const { data, error: fetchError } = await supabase
+      // Only the memberships of the current user are joined, by id or by the email
+      // they were invited with, so the roles are theirs. The inner join drops the
+      // documents they are not a member of, row level security does the same.
+      let query = supabase
         .from('yjs_entities')
-        .select('id, type, metadata, created_at, updated_at')
+        .select('id, type, metadata, thumbnail_svg, deleted_at, created_at, updated_at, yjs_entity_members!inner(role)')
         .eq('type', 'document')
-        .order('updated_at', { ascending: false })
+        .or(
+          `user_id.eq.${user.id},and(user_id.is.null,email.eq."${user.email?.toLowerCase() ?? ''}")`,
+          { referencedTable: 'yjs_entity_members' }
+        )
+
+      // Purged documents are tombstones and not listed anywhere, branches are listed in their document
+      query = showTrash
+        ? query.not('deleted_at', 'is', null).is('purged_at', null).order('deleted_at', { ascending: false })
+        : query.is('deleted_at', null).is('metadata->>branch_of', null).order('updated_at', { ascending: false })
+
+      const { data, error: fetchError } = await query
       
       if (fetchError) throw fetchError
       
@@ -59,19 +76,8 @@ function HomePageContent() {
   const handleCreate = async () => {
     const title = documentTitle.trim() || `Untitled Document`
     try {
-      const { data, error } = await supabase
-        .from('yjs_entities')
-        .insert({
-          type: 'document',
-          metadata: { title },
-        })
-        .select('id')
-        .single()
-
-      if (error) throw error
-      if (!data) throw new Error('Failed to create document.')
-
-      router.push(`/document/${data.id}`)
+      const entity = await entitiesApi.create({ type: 'document', title })
+      router.push(`/document/${entity.id}`)
     } catch (err) {
       console.error('Error creating document:', err)
       setError('Failed to create a new document.')
@@ -85,6 +91,8 @@ function HomePageContent() {
   }
   
   const handleDocumentClick = (id: string) => {
+    // Trashed documents can't be opened until they are restored
+    if (showTrash) return
     router.push(`/document/${id}`)
   }
   
@@ -99,12 +107,12 @@ function HomePageContent() {
     try {
       setDeleting(true)
       
-      const { error: deleteError } = await supabase
-        .from('yjs_entities')
-        .delete()
-        .eq('id', deleteConfirmId)
-      
-      if (deleteError) throw deleteError
+      // The server disconnects collaborators, so nobody keeps editing a deleted document
+      if (showTrash) {
+        await entitiesApi.purge(deleteConfirmId)
+      } else {
+        await entitiesApi.trash(deleteConfirmId)
+      }
       
       setDocuments(prev => prev.filter(doc => doc.id !== deleteConfirmId))
       setDeleteConfirmId(null)
@@ -120,6 +128,30 @@ function HomePageContent() {
     setDeleteConfirmId(null)
   }
 
+  const handleDuplicateClick = async (e: React.MouseEvent, docId: string) => {
+    e.stopPropagation()
+
+    try {
+      const fork = await entitiesApi.fork(docId)
+      router.push(`/document/${fork.id}`)
+    } catch (err) {
+      console.error('Error duplicating document:', err)
+      setError('Failed to duplicate document')
+    }
+  }
+
+  const handleRestoreClick = async (e: React.MouseEvent, docId: string) => {
+    e.stopPropagation()
+
+    try {
+      await entitiesApi.restore(docId)
+      setDocuments(prev => prev.filter(doc => doc.id !== docId))
+    } catch (err) {
+      console.error('Error restoring document:', err)
+      setError('Failed to restore document')
+    }
+  }
+
   const handleSignOut = async () => {
     try {
       await signOut()
@@ -129,6 +161,12 @@ function HomePageContent() {
     }
   }
 
+  // Highest role of the current user, who may be a member both by id and by email
+  const roleOf = (doc: Document) =>
+    entityRoles.find(role => doc.yjs_entity_members?.some(member => member.role === role)) ?? null
+
+  const isOwner = (doc: Document) => roleOf(doc) === 'owner'
+
   const filteredDocuments = documents.filter(doc =>
     doc.metadata?.title?.toLowerCase().includes(searchQuery.toLowerCase())
   )
@@ -150,7 +188,7 @@ function HomePageContent() {
                 </h1>
               )}
               <p className="text-gray-500 mt-0.5 text-sm">
-                {filteredDocuments.length} {filteredDocuments.length === 1 ? 'document' : 'documents'} total
+                {filteredDocuments.length} {filteredDocuments.length === 1 ? 'document' : 'documents'} {showTrash ? 'in trash' : 'total'}
               </p>
             </div>
             
@@ -200,6 +238,19 @@ function HomePageContent() {
                 )}
               </div>
 
+              {/* Trash Toggle */}
+              <button
+                onClick={() => setShowTrash(!showTrash)}
+                className={`w-10 h-10 rounded-lg transition-colors flex items-center justify-center ${
+                  showTrash ? 'bg-gray-200 text-gray-900' : 'hover:bg-gray-100 text-gray-700'
+                }`}
+                title={showTrash ? 'Back to documents' : 'Show trash'}
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                </svg>
+              </button>
+
               {/* Create Document Button */}
               <button
                 onClick={() => setShowModal(true)}
@@ -247,8 +298,12 @@ function HomePageContent() {
               </div>
             ) : filteredDocuments.length === 0 ? (
               <div className="text-center py-20">
-                <h3 className="text-lg font-medium text-gray-900">No documents found</h3>
-                <p className="mt-1 text-sm text-gray-500">Create your first document to get started.</p>
+                <h3 className="text-lg font-medium text-gray-900">
+                  {showTrash ? 'Trash is empty' : 'No documents found'}
+                </h3>
+                <p className="mt-1 text-sm text-gray-500">
+                  {showTrash ? 'Deleted documents can be restored from here.' : 'Create your first document to get started.'}
+                </p>
               </div>
             ) : (
               <div className="divide-y divide-gray-100">
@@ -259,7 +314,9 @@ function HomePageContent() {
                     index={index}
                     onlineUsers={onlineUsers}
                     onDocumentClick={() => handleDocumentClick(doc.id)}
-                    onDeleteClick={(e) => handleDeleteClick(e, doc.id)}
+                    onDeleteClick={isOwner(doc) ? (e) => handleDeleteClick(e, doc.id) : undefined}
+                    onRestoreClick={isOwner(doc) ? handleRestoreClick : undefined}
+                    onDuplicateClick={handleDuplicateClick}
                   />
                 ))}
               </div>
@@ -307,6 +364,38 @@ function HomePageContent() {
           </div>
         </div>
       )}
+
+      {/* Delete Confirmation */}
+      {deleteConfirmId && (
+        <div className="fixed inset-0 bg-black/30 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-2xl shadow-xl p-6 max-w-md w-full">
+            <h2 className="text-xl font-semibold text-gray-900 mb-2">
+              {showTrash ? 'Delete Forever?' : 'Move to Trash?'}
+            </h2>
+            <p className="text-sm text-gray-500 mb-6">
+              {showTrash
+                ? 'The document, its history and its versions will be permanently deleted. This cannot be undone.'
+                : 'Collaborators will be disconnected. You can restore the document from the trash.'}
+            </p>
+            <div className="flex gap-3">
+              <button
+                onClick={handleDeleteCancel}
+                disabled={deleting}
+                className="flex-1 bg-white hover:bg-gray-50 border border-gray-300 text-gray-700 font-medium py-2.5 px-4 rounded-lg transition-colors disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleDeleteConfirm}
+                disabled={deleting}
+                className="flex-1 bg-red-600 hover:bg-red-700 text-white font-medium py-2.5 px-6 rounded-lg transition-colors disabled:opacity-50"
+              >
+                {deleting ? 'Deleting...' : showTrash ? 'Delete Forever' : 'Move to Trash'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   )
 }
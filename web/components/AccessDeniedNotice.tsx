@@ -0,0 +1,38 @@
+'use client'
+
+import React from 'react'
+import { useRouter } from 'next/navigation'
+import { useSnapshot } from 'valtio'
+import { docState } from '@/store/document'
+import { Lock } from 'lucide-react'
+
+/**
+ * Shown when the server refused the connection or an owner removed us from the
+ * document. The providers are closed by then, so nothing is synced anymore.
+ */
+export function AccessDeniedNotice() {
+  const router = useRouter()
+  const snap = useSnapshot(docState)
+
+  if (!snap.accessDenied) return null
+
+  return (
+    <div className="fixed top-20 left-1/2 -translate-x-1/2 z-40 w-96 max-w-[calc(100vw-3rem)] p-3 bg-gray-900 text-white rounded-xl shadow-lg">
+      <div className="flex items-start gap-2">
+        <Lock className="w-4 h-4 mt-0.5 flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium">You don&apos;t have access to this document</p>
+          <p className="text-xs text-gray-300">
+            Ask an owner to share it with you. Changes are no longer saved.
+          </p>
+        </div>
+        <button
+          onClick={() => router.push('/')}
+          className="px-3 py-1 text-xs font-medium bg-white text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+        >
+          Back home
+        </button>
+      </div>
+    </div>
+  )
+}
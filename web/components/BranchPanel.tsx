@@ -0,0 +1,288 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { supabase } from '@/lib/supabase'
+import { BranchDiff, FieldDiff, branchesApi } from '@/lib/server-api'
+import { ArrowUpRight, GitBranch, GitMerge, Loader, Plus, RefreshCw, X } from 'lucide-react'
+
+interface BranchPanelProps {
+  documentId: string
+  onClose: () => void
+}
+
+interface BranchRow {
+  id: string
+  metadata: { branch_name?: string; [key: string]: any }
+  updated_at: string
+}
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString)
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
+
+function describeItem(item: any) {
+  return item?.type ? `${item.type} ${String(item.id).slice(0, 8)}` : String(item?.id)
+}
+
+function FieldChanges({ field, diff }: { field: string; diff: FieldDiff }) {
+  if (diff.kind === 'value') {
+    return (
+      <li className="text-xs text-gray-700">
+        <span className="font-medium">{field}</span>: {JSON.stringify(diff.before)} → {JSON.stringify(diff.after)}
+      </li>
+    )
+  }
+
+  return (
+    <li className="text-xs text-gray-700">
+      <span className="font-medium">{field}</span>:{' '}
+      <span className="text-emerald-700">+{diff.added.length}</span>{' '}
+      <span className="text-red-700">−{diff.removed.length}</span>{' '}
+      <span className="text-amber-700">~{diff.changed.length}</span>
+      <ul className="mt-1 ml-3 space-y-0.5 text-gray-500">
+        {diff.added.map((item) => <li key={`+${item.id}`} className="truncate">+ {describeItem(item)}</li>)}
+        {diff.removed.map((item) => <li key={`-${item.id}`} className="truncate">− {describeItem(item)}</li>)}
+        {diff.changed.map((change) => <li key={`~${change.id}`} className="truncate">~ {describeItem(change.after)}</li>)}
+      </ul>
+    </li>
+  )
+}
+
+/**
+ * Draft branches of a document. On the main document it lists the branches and
+ * creates new ones; on a branch it shows what merging would change in the parent.
+ */
+export function BranchPanel({ documentId, onClose }: BranchPanelProps) {
+  const router = useRouter()
+  const [parentId, setParentId] = useState<string | null>(null)
+  const [branches, setBranches] = useState<BranchRow[]>([])
+  const [diff, setDiff] = useState<BranchDiff | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [branchName, setBranchName] = useState('')
+  const [creating, setCreating] = useState(false)
+  const [merging, setMerging] = useState(false)
+  const [mergeConfirm, setMergeConfirm] = useState(false)
+
+  const fetchBranches = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const { data: entity, error: entityError } = await supabase
+        .from('yjs_entities')
+        .select('metadata')
+        .eq('id', documentId)
+        .single()
+      if (entityError) throw entityError
+
+      const branchOf = entity?.metadata?.branch_of ?? null
+      setParentId(branchOf)
+
+      if (branchOf) {
+        setDiff(await branchesApi.diff(documentId))
+      } else {
+        const { data, error: fetchError } = await supabase
+          .from('yjs_entities')
+          .select('id, metadata, updated_at')
+          .eq('metadata->>branch_of', documentId)
+          .is('deleted_at', null)
+          .order('updated_at', { ascending: false })
+        if (fetchError) throw fetchError
+        setBranches(data || [])
+      }
+    } catch (err) {
+      console.error('Error fetching branches:', err)
+      setError('Failed to load branches')
+    } finally {
+      setLoading(false)
+    }
+  }, [documentId])
+
+  useEffect(() => {
+    fetchBranches()
+  }, [fetchBranches])
+
+  const handleCreate = async () => {
+    const name = branchName.trim()
+    if (!name) return
+
+    try {
+      setCreating(true)
+      setError(null)
+      const branch = await branchesApi.create(documentId, name)
+      router.push(`/document/${branch.id}`)
+    } catch (err) {
+      console.error('Error creating branch:', err)
+      setError('Failed to create branch')
+      setCreating(false)
+    }
+  }
+
+  const handleMerge = async () => {
+    try {
+      setMerging(true)
+      setMergeConfirm(false)
+      setError(null)
+      await branchesApi.merge(documentId)
+      setDiff(await branchesApi.diff(documentId))
+    } catch (err) {
+      console.error('Error merging branch:', err)
+      setError('Failed to merge branch')
+    } finally {
+      setMerging(false)
+    }
+  }
+
+  const changedFields = diff ? Object.entries(diff.changes) : []
+
+  return (
+    <div className="fixed top-20 left-6 z-20 w-80 max-h-[70vh] flex flex-col bg-white/95 backdrop-blur-sm rounded-xl shadow-lg border border-gray-200/50">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+        <div className="flex items-center gap-2 text-sm font-semibold text-gray-800 min-w-0">
+          <GitBranch className="w-4 h-4 flex-shrink-0" />
+          <span className="truncate">{parentId ? `Branch ${diff?.name ?? ''}` : 'Branches'}</span>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 hover:bg-gray-100 rounded-lg transition-colors"
+          title="Close"
+        >
+          <X className="w-4 h-4 text-gray-500" />
+        </button>
+      </div>
+
+      {error && (
+        <div className="mx-4 mt-3 p-2 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-xs text-red-800">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader className="w-5 h-5 text-gray-400 animate-spin" />
+        </div>
+      ) : parentId ? (
+        <div className="flex-1 overflow-y-auto px-4 py-3 space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <button
+              onClick={() => router.push(`/document/${parentId}`)}
+              className="flex items-center gap-1 text-xs font-medium text-gray-700 hover:text-gray-900"
+            >
+              Open main document
+              <ArrowUpRight className="w-3 h-3" />
+            </button>
+            <button
+              onClick={fetchBranches}
+              className="p-1 hover:bg-gray-100 rounded-lg transition-colors"
+              title="Refresh diff"
+            >
+              <RefreshCw className="w-3.5 h-3.5 text-gray-500" />
+            </button>
+          </div>
+
+          {diff?.parentAhead && (
+            <p className="text-xs text-amber-700">
+              The main document changed since this branch was created. Merging keeps those changes.
+            </p>
+          )}
+
+          {changedFields.length === 0 ? (
+            <p className="py-4 text-center text-sm text-gray-500">Nothing to merge.</p>
+          ) : (
+            <>
+              <p className="text-xs text-gray-500">Merging changes the main document:</p>
+              <ul className="space-y-2">
+                {changedFields.map(([field, fieldDiff]) => (
+                  <FieldChanges key={field} field={field} diff={fieldDiff} />
+                ))}
+              </ul>
+              {mergeConfirm ? (
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={handleMerge}
+                    className="flex-1 px-3 py-1.5 text-sm font-medium text-white bg-gray-900 hover:bg-gray-800 rounded-lg transition-colors"
+                  >
+                    Merge
+                  </button>
+                  <button
+                    onClick={() => setMergeConfirm(false)}
+                    className="flex-1 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={() => setMergeConfirm(true)}
+                  disabled={merging}
+                  className="w-full flex items-center justify-center gap-2 px-3 py-1.5 text-sm font-medium text-white bg-gray-900 hover:bg-gray-800 disabled:bg-gray-300 rounded-lg transition-colors"
+                >
+                  {merging ? <Loader className="w-4 h-4 animate-spin" /> : <GitMerge className="w-4 h-4" />}
+                  Merge into main document
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      ) : (
+        <>
+          {/* Create a branch */}
+          <div className="flex items-center gap-2 px-4 py-3 border-b border-gray-100">
+            <input
+              type="text"
+              value={branchName}
+              onChange={(e) => setBranchName(e.target.value)}
+              onKeyDown={(e) => {
+                // Keep canvas shortcuts (Backspace, Space, ...) from firing while typing
+                e.stopPropagation()
+                if (e.key === 'Enter') handleCreate()
+              }}
+              placeholder="Name a new branch..."
+              className="flex-1 min-w-0 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-1 focus:ring-gray-900 focus:border-gray-900 outline-none transition"
+            />
+            <button
+              onClick={handleCreate}
+              disabled={creating || !branchName.trim()}
+              className="p-2 bg-gray-900 hover:bg-gray-800 disabled:bg-gray-300 text-white rounded-lg transition-colors"
+              title="Create branch"
+            >
+              {creating ? <Loader className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            </button>
+          </div>
+
+          {/* Branches */}
+          <div className="flex-1 overflow-y-auto">
+            {branches.length === 0 ? (
+              <p className="px-4 py-8 text-center text-sm text-gray-500">No branches yet.</p>
+            ) : (
+              <div className="divide-y divide-gray-100">
+                {branches.map((branch) => (
+                  <button
+                    key={branch.id}
+                    onClick={() => router.push(`/document/${branch.id}`)}
+                    className="w-full text-left px-4 py-3 hover:bg-gray-50"
+                  >
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      {branch.metadata?.branch_name || branch.id}
+                    </p>
+                    <p className="text-xs text-gray-500">{formatDate(branch.updated_at)}</p>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,40 @@
+'use client'
+
+import React from 'react'
+import { useRouter } from 'next/navigation'
+import { useSnapshot } from 'valtio'
+import { docState } from '@/store/document'
+import { Trash2 } from 'lucide-react'
+
+/**
+ * Shown when the server reported the open document as deleted. The providers
+ * are closed and the local copy is cleared by then, so nothing is synced anymore.
+ */
+export function DeletedDocumentNotice() {
+  const router = useRouter()
+  const snap = useSnapshot(docState)
+
+  if (!snap.deleted) return null
+
+  return (
+    <div className="fixed top-20 left-1/2 -translate-x-1/2 z-40 w-96 max-w-[calc(100vw-3rem)] p-3 bg-gray-900 text-white rounded-xl shadow-lg">
+      <div className="flex items-start gap-2">
+        <Trash2 className="w-4 h-4 mt-0.5 flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium">This document was deleted</p>
+          <p className="text-xs text-gray-300">
+            {snap.deleted.purged
+              ? 'It was permanently deleted. Changes are no longer saved.'
+              : 'It was moved to the trash. Changes are no longer saved until it is restored.'}
+          </p>
+        </div>
+        <button
+          onClick={() => router.push('/')}
+          className="px-3 py-1 text-xs font-medium bg-white text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+        >
+          Back home
+        </button>
+      </div>
+    </div>
+  )
+}
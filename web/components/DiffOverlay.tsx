@@ -0,0 +1,86 @@
+'use client'
+
+import React from 'react'
+import { Ellipse, Group, Rect } from 'react-konva'
+import { Drawable } from 'collaborative-editor-shared'
+import { FieldDiff } from '@/lib/server-api'
+
+interface DiffOverlayProps {
+  /** Changes of the `drawables` field, undefined when they are equal */
+  diff?: FieldDiff
+  scale: number
+}
+
+const ADDED = '#16a34a'
+const REMOVED = '#dc2626'
+const BEFORE = '#6b7280'
+const AFTER = '#2563eb'
+
+// Properties that change where a shape is or how big it is
+const GEOMETRY_KEYS = ['x', 'y', 'width', 'height', 'radiusX', 'radiusY']
+
+function Outline({
+  drawable,
+  stroke,
+  strokeWidth,
+  dash,
+  fill,
+  opacity,
+}: {
+  drawable: Drawable
+  stroke: string
+  strokeWidth: number
+  dash?: number[]
+  fill?: string
+  opacity?: number
+}) {
+  const common = { stroke, strokeWidth, dash, fill, opacity, listening: false }
+
+  switch (drawable.type) {
+    case 'rectangle':
+      return <Rect x={drawable.x} y={drawable.y} width={drawable.width} height={drawable.height} {...common} />
+    case 'ellipse':
+      return <Ellipse x={drawable.x} y={drawable.y} radiusX={drawable.radiusX} radiusY={drawable.radiusY} {...common} />
+    default:
+      return null
+  }
+}
+
+/**
+ * Draws a comparison over the canvas, which shows the newer side: added shapes
+ * outlined in green, removed shapes as red ghosts, and moved or resized shapes
+ * with their old outline (dashed gray) next to the new one (blue).
+ */
+export function DiffOverlay({ diff, scale }: DiffOverlayProps) {
+  if (!diff || diff.kind !== 'items') return null
+
+  const strokeWidth = 2 / scale
+  const dash = [6 / scale, 4 / scale]
+
+  return (
+    <Group listening={false}>
+      {diff.removed.map((drawable) => (
+        <Outline
+          key={`removed-${drawable.id}`}
+          drawable={drawable}
+          stroke={REMOVED}
+          strokeWidth={strokeWidth}
+          dash={dash}
+          fill={REMOVED}
+          opacity={0.35}
+        />
+      ))}
+      {diff.changed
+        .filter((change) => change.keys.some((key) => GEOMETRY_KEYS.includes(key)))
+        .map((change) => (
+          <React.Fragment key={`changed-${change.id}`}>
+            <Outline drawable={change.before} stroke={BEFORE} strokeWidth={strokeWidth} dash={dash} />
+            <Outline drawable={change.after} stroke={AFTER} strokeWidth={strokeWidth} />
+          </React.Fragment>
+        ))}
+      {diff.added.map((drawable) => (
+        <Outline key={`added-${drawable.id}`} drawable={drawable} stroke={ADDED} strokeWidth={strokeWidth * 1.5} />
+      ))}
+    </Group>
+  )
+}
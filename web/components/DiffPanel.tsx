@@ -0,0 +1,254 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { EntityVersion, FieldDiff, SnapshotDiff, diffsApi, versionsApi } from '@/lib/server-api'
+import { GitCompare, Loader, X } from 'lucide-react'
+
+interface DiffPanelProps {
+  documentId: string
+  onCompare: (diff: SnapshotDiff | null) => void
+  onClose: () => void
+}
+
+interface BranchOption {
+  id: string
+  label: string
+}
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString)
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
+
+const formatValue = (value: any) => (typeof value === 'number' ? String(Math.round(value * 100) / 100) : JSON.stringify(value))
+
+const shortId = (id: string) => id.slice(0, 8)
+
+/**
+ * Picks one side of the comparison, as a snapshot ref (`current`, `version:<id>`,
+ * `branch:<id>` or `at:<ISO time>`).
+ */
+function SnapshotPicker({
+  label,
+  value,
+  onChange,
+  versions,
+  branches,
+}: {
+  label: string
+  value: string
+  onChange: (ref: string) => void
+  versions: EntityVersion[]
+  branches: BranchOption[]
+}) {
+  const isTime = value.startsWith('at')
+  const [time, setTime] = useState('')
+
+  return (
+    <div className="space-y-1">
+      <label className="block text-xs font-medium text-gray-600">{label}</label>
+      <select
+        value={isTime ? 'at' : value}
+        onChange={(e) => onChange(e.target.value === 'at' ? (time ? `at:${new Date(time).toISOString()}` : 'at') : e.target.value)}
+        className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-lg bg-white focus:ring-1 focus:ring-gray-900 focus:border-gray-900 outline-none"
+      >
+        <option value="current">Current document</option>
+        {versions.length > 0 && (
+          <optgroup label="Versions">
+            {versions.map((version) => (
+              <option key={version.id} value={`version:${version.id}`}>
+                {version.name} · {formatDate(version.createdAt)}
+              </option>
+            ))}
+          </optgroup>
+        )}
+        {branches.length > 0 && (
+          <optgroup label="Branches">
+            {branches.map((branch) => (
+              <option key={branch.id} value={`branch:${branch.id}`}>{branch.label}</option>
+            ))}
+          </optgroup>
+        )}
+        <option value="at">Point in time…</option>
+      </select>
+      {isTime && (
+        <input
+          type="datetime-local"
+          value={time}
+          onChange={(e) => {
+            setTime(e.target.value)
+            onChange(e.target.value ? `at:${new Date(e.target.value).toISOString()}` : 'at')
+          }}
+          onKeyDown={(e) => e.stopPropagation()}
+          className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-1 focus:ring-gray-900 focus:border-gray-900 outline-none"
+        />
+      )}
+    </div>
+  )
+}
+
+/**
+ * Changes of an array of items with ids, e.g. drawables, with the properties changed per id.
+ */
+function ItemChanges({ diff }: { diff: FieldDiff }) {
+  if (diff.kind !== 'items') return null
+
+  const describe = (item: { id: string; type?: string }) => (item.type ? `${item.type} ${shortId(item.id)}` : shortId(item.id))
+
+  return (
+    <>
+      {diff.added.map((item) => (
+        <li key={`added-${item.id}`} className="text-xs text-emerald-700">+ {describe(item)} added</li>
+      ))}
+      {diff.removed.map((item) => (
+        <li key={`removed-${item.id}`} className="text-xs text-red-700">− {describe(item)} removed</li>
+      ))}
+      {diff.changed.map((change) => (
+        <li key={`changed-${change.id}`} className="text-xs text-gray-700">
+          <span className="text-blue-700">~ {describe(change.after)}</span>
+          <ul className="ml-3 text-gray-500">
+            {change.keys.map((key) => (
+              <li key={key} className="truncate">
+                {key}: {formatValue(change.before[key])} → {formatValue(change.after[key])}
+              </li>
+            ))}
+          </ul>
+        </li>
+      ))}
+    </>
+  )
+}
+
+/**
+ * Compares two points in the history of a document (versions, times or
+ * branches). The canvas shows the newer side with the changes drawn over it.
+ */
+export function DiffPanel({ documentId, onCompare, onClose }: DiffPanelProps) {
+  const [versions, setVersions] = useState<EntityVersion[]>([])
+  const [branches, setBranches] = useState<BranchOption[]>([])
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('current')
+  const [diff, setDiff] = useState<SnapshotDiff | null>(null)
+  const [comparing, setComparing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchOptions = async () => {
+      try {
+        const [versionList, entity, children] = await Promise.all([
+          versionsApi.list(documentId),
+          supabase.from('yjs_entities').select('metadata').eq('id', documentId).single(),
+          supabase
+            .from('yjs_entities')
+            .select('id, metadata')
+            .eq('metadata->>branch_of', documentId)
+            .is('deleted_at', null),
+        ])
+        setVersions(versionList)
+
+        const options: BranchOption[] = (children.data || []).map((branch) => ({
+          id: branch.id,
+          label: branch.metadata?.branch_name || shortId(branch.id),
+        }))
+        const parentId = entity.data?.metadata?.branch_of
+        if (parentId) options.unshift({ id: parentId, label: 'Main document' })
+        setBranches(options)
+
+        if (versionList.length > 0) setFrom(`version:${versionList[0].id}`)
+      } catch (err) {
+        console.error('Error loading comparison options:', err)
+        setError('Failed to load versions')
+      }
+    }
+    fetchOptions()
+  }, [documentId])
+
+  // Hand the canvas back to the live document when the panel closes
+  useEffect(() => {
+    return () => onCompare(null)
+  }, [onCompare])
+
+  const handleCompare = async () => {
+    try {
+      setComparing(true)
+      setError(null)
+      const result = await diffsApi.compare(documentId, from, to)
+      setDiff(result)
+      onCompare(result)
+    } catch (err) {
+      console.error('Error comparing:', err)
+      setError(err instanceof Error ? err.message : 'Failed to compare')
+    } finally {
+      setComparing(false)
+    }
+  }
+
+  const canCompare = from && from !== 'at' && to !== 'at' && from !== to
+  const changes = diff ? Object.entries(diff.changes) : []
+
+  return (
+    <div className="fixed top-20 left-6 z-20 w-80 max-h-[70vh] flex flex-col bg-white/95 backdrop-blur-sm rounded-xl shadow-lg border border-gray-200/50">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+        <div className="flex items-center gap-2 text-sm font-semibold text-gray-800">
+          <GitCompare className="w-4 h-4" />
+          Compare
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 hover:bg-gray-100 rounded-lg transition-colors"
+          title="Close"
+        >
+          <X className="w-4 h-4 text-gray-500" />
+        </button>
+      </div>
+
+      {/* Sides */}
+      <div className="px-4 py-3 space-y-3 border-b border-gray-100">
+        <SnapshotPicker label="From" value={from} onChange={setFrom} versions={versions} branches={branches} />
+        <SnapshotPicker label="To" value={to} onChange={setTo} versions={versions} branches={branches} />
+        <button
+          onClick={handleCompare}
+          disabled={comparing || !canCompare}
+          className="w-full flex items-center justify-center gap-2 px-3 py-1.5 text-sm font-medium text-white bg-gray-900 hover:bg-gray-800 disabled:bg-gray-300 rounded-lg transition-colors"
+        >
+          {comparing && <Loader className="w-4 h-4 animate-spin" />}
+          Compare
+        </button>
+      </div>
+
+      {error && (
+        <div className="mx-4 mt-3 p-2 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-xs text-red-800">{error}</p>
+        </div>
+      )}
+
+      {/* Changes */}
+      {diff && (
+        <div className="flex-1 overflow-y-auto px-4 py-3">
+          {changes.length === 0 ? (
+            <p className="py-4 text-center text-sm text-gray-500">No differences.</p>
+          ) : (
+            <ul className="space-y-1">
+              {changes.map(([field, fieldDiff]) =>
+                fieldDiff.kind === 'items' ? (
+                  <ItemChanges key={field} diff={fieldDiff} />
+                ) : (
+                  <li key={field} className="text-xs text-gray-700">
+                    {field}: {formatValue(fieldDiff.before)} → {formatValue(fieldDiff.after)}
+                  </li>
+                ),
+              )}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
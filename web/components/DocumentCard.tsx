@@ -1,5 +1,6 @@
+import type { EntityRole } from 'collaborative-editor-shared'
 import { DocumentPresence } from '@/components/DocumentPresence'
-import { Clock } from 'lucide-react'
+import { Clock, Copy, RotateCcw, Trash2 } from 'lucide-react'
 
 export interface Document {
   id: string
@@ -8,6 +9,12 @@ export interface Document {
     title?: string
     [key: string]: any
   }
+  /** SVG preview rendered by the server when the document is stored */
+  thumbnail_svg?: string | null
+  /** Set while the document is in the trash */
+  deleted_at?: string | null
+  /** Memberships of the current user, only theirs are joined */
+  yjs_entity_members?: { role: EntityRole }[]
   created_at: string
   updated_at: string
 }
@@ -17,7 +24,12 @@ interface DocumentCardProps {
   index: number
   onlineUsers: any[]
   onDocumentClick: (id: string) => void
-  onDeleteClick: (e: React.MouseEvent, docId: string) => void
+  /** Only owners may delete a document */
+  onDeleteClick?: (e: React.MouseEvent, docId: string) => void
+  /** Shown for documents in the trash */
+  onRestoreClick?: (e: React.MouseEvent, docId: string) => void
+  /** Shown for documents that are not in the trash */
+  onDuplicateClick?: (e: React.MouseEvent, docId: string) => void
 }
 
 const formatDate = (dateString: string) => {
@@ -36,9 +48,12 @@ export const DocumentCard = ({
   index,
   onlineUsers,
   onDocumentClick,
-  onDeleteClick
+  onDeleteClick,
+  onRestoreClick,
+  onDuplicateClick
 }: DocumentCardProps) => {
   const title = document.metadata?.title || document.id
+  const trashed = !!document.deleted_at
 
   return (
     <div className="relative group">
@@ -50,18 +65,27 @@ export const DocumentCard = ({
           <div className="flex-1 min-w-0 pr-4">
             <div className="flex items-start gap-3" style={{ marginBottom: '-10px' }}>
               <div className="flex items-start gap-3 min-w-0 flex-1">
-                <div className="w-10 h-10 bg-blue-500 rounded-lg flex items-center justify-center flex-shrink-0">
-                  <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                  </svg>
-                </div>
+                {document.thumbnail_svg ? (
+                  // As an image the SVG can't run scripts or load anything
+                  <img
+                    src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(document.thumbnail_svg)}`}
+                    alt=""
+                    className="w-14 h-10 rounded-lg border border-gray-200 bg-white object-contain flex-shrink-0"
+                  />
+                ) : (
+                  <div className="w-14 h-10 bg-blue-500 rounded-lg flex items-center justify-center flex-shrink-0">
+                    <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                    </svg>
+                  </div>
+                )}
                 <h3 className="text-base font-medium text-gray-900 truncate" title={title}>
                   {title}
                 </h3>
                  <DocumentPresence documentName={document.id} onlineUsers={onlineUsers} showStatusText={false} />
               </div>
             </div>
-            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-500 pl-[52px]">
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-500 pl-[68px]">
               <span className="flex items-center gap-1" title="Created">
                 <Clock className="w-3 h-3" />
                 {formatDate(document.created_at)}
@@ -70,18 +94,44 @@ export const DocumentCard = ({
                 <Clock className="w-3 h-3" />
                 {formatDate(document.updated_at)}
               </span>
+              {document.deleted_at && (
+                <span className="flex items-center gap-1 text-red-600" title="Moved to trash">
+                  <Trash2 className="w-3 h-3" />
+                  {formatDate(document.deleted_at)}
+                </span>
+              )}
             </div>
           </div>
           <div className="flex items-center gap-2">
-            <button
-              onClick={(e) => onDeleteClick(e, document.id)}
-              className="opacity-0 group-hover:opacity-100 p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-all"
-              title="Delete document"
-            >
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-              </svg>
-            </button>
+            {!trashed && onDuplicateClick && (
+              <button
+                onClick={(e) => onDuplicateClick(e, document.id)}
+                className="opacity-0 group-hover:opacity-100 p-2 text-gray-400 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-all"
+                title="Duplicate document"
+              >
+                <Copy className="w-4 h-4" />
+              </button>
+            )}
+            {trashed && onRestoreClick && (
+              <button
+                onClick={(e) => onRestoreClick(e, document.id)}
+                className="opacity-0 group-hover:opacity-100 p-2 text-gray-400 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-all"
+                title="Restore document"
+              >
+                <RotateCcw className="w-4 h-4" />
+              </button>
+            )}
+            {onDeleteClick && (
+              <button
+                onClick={(e) => onDeleteClick(e, document.id)}
+                className="opacity-0 group-hover:opacity-100 p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-all"
+                title={trashed ? 'Delete forever' : 'Move to trash'}
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                </svg>
+              </button>
+            )}
             <svg className="w-5 h-5 text-gray-400 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
             </svg>
@@ -3,7 +3,7 @@
 import React, { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { useSnapshot } from 'valtio'
-import { docState } from '@/store/document'
+import { actions, docState } from '@/store/document'
 import { useAwareness, useYDoc } from '@/hooks/useYjs'
 import { useAppPresence } from '@/hooks/useAppPresence'
 import { useAuth } from '@/hooks/useAuth'
@@ -16,16 +16,42 @@ import {
   Loader,
   ArrowLeft,
   Users,
+  History,
+  Film,
+  Copy,
+  GitBranch,
+  GitCompare,
+  Share2,
 } from 'lucide-react'
+import { entitiesApi } from '@/lib/server-api'
+import { ShareDialog } from './ShareDialog'
 
 interface DocumentStatusToolbarProps {
   documentId: string
   documentTitle: string
+  readOnly?: boolean
+  isHistoryOpen?: boolean
+  onToggleHistory?: () => void
+  isPlaybackOpen?: boolean
+  onTogglePlayback?: () => void
+  isBranchesOpen?: boolean
+  onToggleBranches?: () => void
+  isDiffOpen?: boolean
+  onToggleDiff?: () => void
 }
 
 export function DocumentStatusToolbar({
   documentId,
   documentTitle,
+  readOnly = false,
+  isHistoryOpen = false,
+  onToggleHistory,
+  isPlaybackOpen = false,
+  onTogglePlayback,
+  isBranchesOpen = false,
+  onToggleBranches,
+  isDiffOpen = false,
+  onToggleDiff,
 }: DocumentStatusToolbarProps) {
   const router = useRouter()
   const snap = useSnapshot(docState)
@@ -33,6 +59,36 @@ export function DocumentStatusToolbar({
   const ydoc = useYDoc()
   const [presenceUsers, setPresenceUsers] = useState<PresenceUser[]>([])
   const [webrtcPeerIds, setWebrtcPeerIds] = useState<Set<number>>(new Set())
+  const [renaming, setRenaming] = useState(false)
+  const [draftName, setDraftName] = useState('')
+  const [duplicating, setDuplicating] = useState(false)
+  const [isShareOpen, setIsShareOpen] = useState(false)
+
+  // The name lives in the document, the title from metadata covers the time before the first sync
+  const name = snap.entity.name || documentTitle
+
+  const startRename = () => {
+    setDraftName(name)
+    setRenaming(true)
+  }
+
+  const commitRename = () => {
+    const trimmed = draftName.trim()
+    if (trimmed && ydoc) actions.setName(ydoc, trimmed)
+    setRenaming(false)
+  }
+
+  // Copies what the server has, changes that are still syncing are not included
+  const duplicate = async () => {
+    try {
+      setDuplicating(true)
+      const fork = await entitiesApi.fork(documentId)
+      router.push(`/document/${fork.id}`)
+    } catch (error) {
+      console.error('Failed to duplicate document:', error)
+      setDuplicating(false)
+    }
+  }
 
   const { user } = useAuth()
   const {
@@ -219,6 +275,98 @@ export function DocumentStatusToolbar({
         )}
       </div>
 
+      {/* Version History */}
+      {onToggleHistory && (
+        <>
+          <div className="w-px h-5 bg-gray-300" />
+          <button
+            onClick={onToggleHistory}
+            className={`p-1.5 rounded-lg transition-colors ${
+              isHistoryOpen
+                ? 'bg-blue-500 hover:bg-blue-600 text-white'
+                : 'hover:bg-gray-100 text-gray-700'
+            }`}
+            title="Version history"
+          >
+            <History className="w-4 h-4" />
+          </button>
+        </>
+      )}
+
+      {/* History Playback */}
+      {onTogglePlayback && (
+        <>
+          {!onToggleHistory && <div className="w-px h-5 bg-gray-300" />}
+          <button
+            onClick={onTogglePlayback}
+            className={`p-1.5 rounded-lg transition-colors ${
+              isPlaybackOpen
+                ? 'bg-blue-500 hover:bg-blue-600 text-white'
+                : 'hover:bg-gray-100 text-gray-700'
+            }`}
+            title="Play back history"
+          >
+            <Film className="w-4 h-4" />
+          </button>
+        </>
+      )}
+
+      {/* Branches */}
+      {onToggleBranches && (
+        <button
+          onClick={onToggleBranches}
+          className={`p-1.5 rounded-lg transition-colors ${
+            isBranchesOpen
+              ? 'bg-blue-500 hover:bg-blue-600 text-white'
+              : 'hover:bg-gray-100 text-gray-700'
+          }`}
+          title="Branches"
+        >
+          <GitBranch className="w-4 h-4" />
+        </button>
+      )}
+
+      {/* Compare */}
+      {onToggleDiff && (
+        <button
+          onClick={onToggleDiff}
+          className={`p-1.5 rounded-lg transition-colors ${
+            isDiffOpen
+              ? 'bg-blue-500 hover:bg-blue-600 text-white'
+              : 'hover:bg-gray-100 text-gray-700'
+          }`}
+          title="Compare versions"
+        >
+          <GitCompare className="w-4 h-4" />
+        </button>
+      )}
+
+      {/* Duplicate */}
+      {!snap.deleted && (
+        <button
+          onClick={duplicate}
+          disabled={duplicating}
+          className="p-1.5 hover:bg-gray-100 text-gray-700 rounded-lg transition-colors disabled:opacity-50"
+          title="Duplicate document"
+        >
+          <Copy className="w-4 h-4" />
+        </button>
+      )}
+
+      {/* Share */}
+      {!snap.deleted && !snap.accessDenied && (
+        <button
+          onClick={() => setIsShareOpen(true)}
+          className="p-1.5 hover:bg-gray-100 text-gray-700 rounded-lg transition-colors"
+          title="Share"
+        >
+          <Share2 className="w-4 h-4" />
+        </button>
+      )}
+      {isShareOpen && (
+        <ShareDialog documentId={documentId} onClose={() => setIsShareOpen(false)} />
+      )}
+
       {/* Divider */}
       <div className="w-px h-5 bg-gray-300" />
 
@@ -226,12 +374,31 @@ export function DocumentStatusToolbar({
       <div className="flex items-center gap-3">
         {/* Group 1: Document name and users in this document */}
         <div className="flex items-center gap-2">
-          <span
-            className="truncate max-w-[150px] text-sm font-semibold text-gray-800"
-            title={documentTitle}
-          >
-            {documentTitle}
-          </span>
+          {renaming ? (
+            <input
+              autoFocus
+              value={draftName}
+              onChange={(e) => setDraftName(e.target.value)}
+              onBlur={commitRename}
+              onKeyDown={(e) => {
+                // Keep canvas shortcuts (Backspace, Space, ...) from firing while typing
+                e.stopPropagation()
+                if (e.key === 'Enter') commitRename()
+                if (e.key === 'Escape') setRenaming(false)
+              }}
+              maxLength={200}
+              className="w-[150px] px-1.5 py-0.5 text-sm font-semibold text-gray-800 border border-blue-400 rounded-md outline-none"
+            />
+          ) : (
+            <button
+              onClick={startRename}
+              disabled={readOnly}
+              className="truncate max-w-[150px] px-1.5 py-0.5 -mx-1.5 text-sm font-semibold text-gray-800 rounded-md hover:bg-gray-100 disabled:hover:bg-transparent transition-colors"
+              title={readOnly ? name : `${name} (click to rename)`}
+            >
+              {name}
+            </button>
+          )}
 
           {documentPresenceUsers.length > 0 && (
             <div className="flex -space-x-2 text-select-none">
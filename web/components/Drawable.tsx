@@ -3,7 +3,7 @@
 import React from 'react'
 import Rectangle from './Rectangle'
 import Ellipse from './Ellipse'
-import { Drawable as DrawableType } from '@/lib/schemas'
+import { Drawable as DrawableType } from 'collaborative-editor-shared'
 import { DrawableProps } from '@/types'
 
 const Drawable = (props: Omit<DrawableProps<DrawableType>, 'shapeProps'> & { shapeProps: DrawableType }) => {
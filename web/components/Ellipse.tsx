@@ -2,7 +2,7 @@
 
 import React from 'react'
 import { Ellipse as KonvaEllipse } from 'react-konva'
-import { Ellipse as EllipseType } from '@/lib/schemas'
+import { Ellipse as EllipseType } from 'collaborative-editor-shared'
 import { DrawableProps } from '@/types'
 
 const Ellipse = ({
@@ -11,6 +11,7 @@ const Ellipse = ({
   onSelect,
   onChange,
   isSpacePressed,
+  readOnly = false,
   onDragStart,
   onDragMove,
 }: DrawableProps<EllipseType>) => {
@@ -25,7 +26,7 @@ const Ellipse = ({
       fill={fill}
       stroke={isSelected ? '#3b82f6' : 'black'}
       strokeWidth={isSelected ? 2 : 1}
-      draggable={!isSpacePressed}
+      draggable={!readOnly && !isSpacePressed}
       onClick={onSelect}
       onTap={onSelect}
       onDragStart={onDragStart}
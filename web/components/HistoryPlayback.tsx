@@ -0,0 +1,153 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { Drawable } from 'collaborative-editor-shared'
+import { PLAYBACK_SPEEDS, useHistoryPlayback } from '@/hooks/useHistoryPlayback'
+import { Film, Loader, Pause, Play, RotateCcw, SkipBack, SkipForward, X } from 'lucide-react'
+
+interface HistoryPlaybackProps {
+  documentId: string
+  onFrame: (drawables: Drawable[] | null) => void
+  onClose: () => void
+}
+
+const formatTimestamp = (dateString: string) => {
+  const date = new Date(dateString)
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  })
+}
+
+export function HistoryPlayback({ documentId, onFrame, onClose }: HistoryPlaybackProps) {
+  const playback = useHistoryPlayback(documentId)
+  const [restoring, setRestoring] = useState(false)
+  const [restoreError, setRestoreError] = useState<string | null>(null)
+
+  useEffect(() => {
+    onFrame(playback.loading ? null : playback.drawables)
+  }, [playback.loading, playback.drawables, onFrame])
+
+  // Hand the canvas back to the live document when playback closes
+  useEffect(() => {
+    return () => onFrame(null)
+  }, [onFrame])
+
+  const handleRestore = async () => {
+    try {
+      setRestoring(true)
+      setRestoreError(null)
+      playback.pause()
+      // The server applies the state as a forward update, it reaches us through the provider
+      await playback.restore()
+      onClose()
+    } catch (err) {
+      console.error('Error restoring history:', err)
+      setRestoreError('Failed to restore this state')
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  const error = playback.error || restoreError
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-20 w-[36rem] max-w-[calc(100vw-3rem)] bg-white/95 backdrop-blur-sm rounded-xl shadow-lg border border-gray-200/50">
+      <div className="flex items-center justify-between px-4 pt-3">
+        <div className="flex items-center gap-2 text-sm font-semibold text-gray-800">
+          <Film className="w-4 h-4" />
+          Playback
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-gray-500">
+            {playback.currentDelta
+              ? formatTimestamp(playback.currentDelta.createdAt)
+              : 'Start of history'}
+            {playback.currentDelta?.userId && ` · ${playback.currentDelta.userId}`}
+            {' · '}
+            {playback.step}/{playback.steps}
+          </span>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Exit playback"
+          >
+            <X className="w-4 h-4 text-gray-500" />
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mx-4 mt-2 p-2 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-xs text-red-800">{error}</p>
+        </div>
+      )}
+
+      {playback.loading ? (
+        <div className="flex items-center justify-center py-4">
+          <Loader className="w-5 h-5 text-gray-400 animate-spin" />
+        </div>
+      ) : (
+        <div className="flex items-center gap-2 px-4 py-3">
+          <button
+            onClick={() => playback.seek(0)}
+            className="p-1.5 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Go to start"
+          >
+            <SkipBack className="w-4 h-4" />
+          </button>
+          <button
+            onClick={playback.playing ? playback.pause : playback.play}
+            disabled={playback.steps === 0}
+            className="p-1.5 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 text-white rounded-lg transition-colors"
+            title={playback.playing ? 'Pause' : 'Play'}
+          >
+            {playback.playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          </button>
+          <button
+            onClick={() => playback.seek(playback.steps)}
+            className="p-1.5 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Go to latest"
+          >
+            <SkipForward className="w-4 h-4" />
+          </button>
+
+          <input
+            type="range"
+            min={0}
+            max={playback.steps}
+            value={playback.step}
+            onChange={(e) => playback.seek(Number(e.target.value))}
+            // Keep canvas shortcuts (Backspace, Space, ...) from firing while scrubbing
+            onKeyDown={(e) => e.stopPropagation()}
+            className="flex-1 accent-blue-500"
+          />
+
+          <select
+            value={playback.speed}
+            onChange={(e) => playback.setSpeed(Number(e.target.value) as typeof playback.speed)}
+            className="px-1.5 py-1 text-xs border border-gray-300 rounded-lg outline-none"
+            title="Playback speed"
+          >
+            {PLAYBACK_SPEEDS.map((speed) => (
+              <option key={speed} value={speed}>{speed}x</option>
+            ))}
+          </select>
+
+          <button
+            onClick={handleRestore}
+            disabled={restoring || playback.step === playback.steps}
+            className="flex items-center gap-1 px-2 py-1.5 text-xs font-medium text-white bg-gray-900 hover:bg-gray-800 disabled:bg-gray-300 rounded-lg transition-colors"
+            title="Restore the document to this state"
+          >
+            {restoring ? <Loader className="w-3.5 h-3.5 animate-spin" /> : <RotateCcw className="w-3.5 h-3.5" />}
+            Restore
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
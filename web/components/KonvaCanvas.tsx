@@ -9,8 +9,18 @@ import Konva from 'konva'
 import Drawable from './Drawable'
 import { CanvasCursors } from './Cursors'
 import { DocumentStatusToolbar } from './DocumentStatusToolbar'
+import { VersionHistoryPanel } from './VersionHistoryPanel'
+import { BranchPanel } from './BranchPanel'
+import { DiffPanel } from './DiffPanel'
+import { DiffOverlay } from './DiffOverlay'
+import { HistoryPlayback } from './HistoryPlayback'
+import { ShapeInfoPopover } from './ShapeInfoPopover'
+import { RejectedUpdateNotice } from './RejectedUpdateNotice'
+import { DeletedDocumentNotice } from './DeletedDocumentNotice'
+import { AccessDeniedNotice } from './AccessDeniedNotice'
 import { ZoomControlsAndStatus } from './ZoomControlsAndStatus'
-import { Drawable as DrawableType } from '@/lib/schemas'
+import { Drawable as DrawableType } from 'collaborative-editor-shared'
+import { SnapshotDiff } from '@/lib/server-api'
 
 type DragContext = {
   initialPositions: Map<string, { x: number; y: number }>
@@ -19,6 +29,20 @@ type DragContext = {
 
 const TRANSFORM_STATE_PREFIX = 'canvas-transform-'
 
+// Top right corner of a drawable in canvas coordinates, where its info popover is anchored
+const getTopRight = (drawable: DrawableType) => {
+  switch (drawable.type) {
+    case 'rectangle':
+      // Konva allows negative sizes when a shape is drawn up or to the left
+      return {
+        x: Math.max(drawable.x, drawable.x + drawable.width),
+        y: Math.min(drawable.y, drawable.y + drawable.height),
+      }
+    case 'ellipse':
+      return { x: drawable.x + Math.abs(drawable.radiusX), y: drawable.y - Math.abs(drawable.radiusY) }
+  }
+}
+
 const saveTransformState = (documentId: string, state: { x: number; y: number; scale: number }) => {
   try {
     const key = `${TRANSFORM_STATE_PREFIX}${documentId}`
@@ -114,18 +138,44 @@ const KonvaCanvas = ({ documentId, documentTitle }: { documentId: string, docume
   const [cursors, setCursors] = useState<Map<number, any>>(new Map())
   const lastCenter = useRef<{ x: number; y: number } | null>(null)
   const lastDist = useRef(0)
+  // The side panels take the same spot, only one is open at a time
+  const [openPanel, setOpenPanel] = useState<'history' | 'branches' | 'diff' | null>(null)
+  const [comparison, setComparison] = useState<SnapshotDiff | null>(null)
+  const [isPlaybackOpen, setIsPlaybackOpen] = useState(false)
+  const [playbackDrawables, setPlaybackDrawables] = useState<DrawableType[] | null>(null)
+
+  // While playing back history or comparing, the canvas shows another state and must not write
+  // to the document. A deleted or inaccessible document is no longer synced, so edits would be lost,
+  // and viewers have a read-only connection. Panning, zooming, cursors and selecting shapes
+  // (to see their details) keep working, only the Transformer handles and edits are off.
+  const isDiffOpen = openPanel === 'diff'
+  const isReadOnly = isPlaybackOpen || isDiffOpen || !!snap.deleted || snap.accessDenied || snap.readOnly
+  const drawables: DrawableType[] = playbackDrawables ?? comparison?.to.content.drawables ?? snap.entity.drawables ?? []
+  const selectedDrawable = snap.selectedIds.length === 1
+    ? drawables.find((drawable) => drawable.id === snap.selectedIds[0])
+    : undefined
+  const togglePanel = (panel: 'history' | 'branches' | 'diff') => setOpenPanel(openPanel === panel ? null : panel)
+
+  // Drop an unfinished shape or drag when the canvas becomes read-only, e.g. when
+  // an owner makes us a viewer while we are editing. The selection is kept.
+  useEffect(() => {
+    if (!isReadOnly) return
+    setIsCreateShapeMode(false)
+    setNewShape([])
+    setDragContext(null)
+  }, [isReadOnly])
 
   useEffect(() => {
     const stage = stageRef.current
     if (!stage || !transformerRef.current) return
 
-    const selectedNodes = snap.selectedIds
+    const selectedNodes = isReadOnly ? [] : snap.selectedIds
       .map((id) => stage.findOne('#' + id))
       .filter((node): node is Konva.Node => !!node)
 
     transformerRef.current.nodes(selectedNodes)
     transformerRef.current.getLayer()?.batchDraw()
-  }, [snap.selectedIds])
+  }, [snap.selectedIds, isReadOnly])
 
   const handleSelectAll = useCallback((e: KeyboardEvent) => {
       if ((e.metaKey || e.ctrlKey) && e.key === 'a') {
@@ -206,7 +256,7 @@ const KonvaCanvas = ({ documentId, documentTitle }: { documentId: string, docume
         setNewShape([])
       }
       if (e.key === 'Backspace' || e.key === 'Delete') {
-        if (snap.selectedIds.length > 0) {
+        if (snap.selectedIds.length > 0 && !isReadOnly) {
           actions.deleteDrawables(ydoc, [...snap.selectedIds])
         }
       }
@@ -216,7 +266,7 @@ const KonvaCanvas = ({ documentId, documentTitle }: { documentId: string, docume
     return () => {
       window.removeEventListener('keydown', handleKeyDown)
     }
-  }, [snap.selectedIds, ydoc, isCreateShapeMode])
+  }, [snap.selectedIds, ydoc, isCreateShapeMode, isReadOnly])
 
   const [stage, setStage] = useState(() => {
     return loadTransformState(documentId) || {
@@ -269,7 +319,7 @@ const KonvaCanvas = ({ documentId, documentTitle }: { documentId: string, docume
   const handleMouseDown = (e: Konva.KonvaEventObject<MouseEvent | TouchEvent>) => {
     if (isSpacePressed) return
 
-    if (isCreateShapeMode) {
+    if (isCreateShapeMode && !isReadOnly) {
       const stage = e.target.getStage()
       if (!stage) return
       const pos = stage.getRelativePointerPosition()
@@ -413,7 +463,7 @@ const KonvaCanvas = ({ documentId, documentTitle }: { documentId: string, docume
 
   const handleMouseUp = (e: Konva.KonvaEventObject<MouseEvent | TouchEvent>) => {
     if (isCreateShapeMode) {
-      if (newShape.length > 0) {
+      if (newShape.length > 0 && !isReadOnly) {
         const shape = newShape[0]
         if (Math.abs(shape.width) > 5 && Math.abs(shape.height) > 5) {
           // simple logic to decide shape, can be improved
@@ -490,6 +540,15 @@ const KonvaCanvas = ({ documentId, documentTitle }: { documentId: string, docume
     })
   }
 
+  const togglePlayback = () => {
+    if (!isPlaybackOpen) {
+      actions.setSelectedIds([])
+      setIsCreateShapeMode(false)
+      setNewShape([])
+    }
+    setIsPlaybackOpen(!isPlaybackOpen)
+  }
+
   const transformState = {
     scale: stage.scale,
     positionX: stage.x,
@@ -499,7 +558,52 @@ const KonvaCanvas = ({ documentId, documentTitle }: { documentId: string, docume
 
   return (
     <div className="relative w-full h-full">
-      <DocumentStatusToolbar documentId={documentId} documentTitle={documentTitle} />
+      <DocumentStatusToolbar
+        documentId={documentId}
+        documentTitle={documentTitle}
+        readOnly={isReadOnly}
+        isHistoryOpen={openPanel === 'history'}
+        onToggleHistory={() => togglePanel('history')}
+        isPlaybackOpen={isPlaybackOpen}
+        onTogglePlayback={togglePlayback}
+        isBranchesOpen={openPanel === 'branches'}
+        onToggleBranches={() => togglePanel('branches')}
+        isDiffOpen={isDiffOpen}
+        onToggleDiff={() => {
+          if (!isDiffOpen) actions.setSelectedIds([])
+          togglePanel('diff')
+        }}
+      />
+      {openPanel === 'history' && (
+        <VersionHistoryPanel documentId={documentId} onClose={() => setOpenPanel(null)} />
+      )}
+      {openPanel === 'branches' && (
+        <BranchPanel documentId={documentId} onClose={() => setOpenPanel(null)} />
+      )}
+      {isDiffOpen && (
+        <DiffPanel documentId={documentId} onCompare={setComparison} onClose={() => setOpenPanel(null)} />
+      )}
+      {isPlaybackOpen && (
+        <HistoryPlayback
+          documentId={documentId}
+          onFrame={setPlaybackDrawables}
+          onClose={() => setIsPlaybackOpen(false)}
+        />
+      )}
+      <RejectedUpdateNotice />
+      <DeletedDocumentNotice />
+      <AccessDeniedNotice />
+      {selectedDrawable && (() => {
+        const corner = getTopRight(selectedDrawable)
+        return (
+          <ShapeInfoPopover
+            key={selectedDrawable.id}
+            documentId={documentId}
+            drawableId={selectedDrawable.id}
+            position={{ x: stage.x + corner.x * stage.scale, y: stage.y + corner.y * stage.scale }}
+          />
+        )
+      })()}
       <Stage
         ref={stageRef}
         width={window.innerWidth}
@@ -527,12 +631,13 @@ const KonvaCanvas = ({ documentId, documentTitle }: { documentId: string, docume
             x={stage.x}
             y={stage.y}
           />
-          {(snap.entity.drawables || []).map((drawable) => (
+          {drawables.map((drawable) => (
             <Drawable
               key={drawable.id}
               shapeProps={drawable}
               isSelected={snap.selectedIds.includes(drawable.id)}
               isSpacePressed={isSpacePressed}
+              readOnly={isReadOnly}
               onSelect={(e) => {
                 if (e.evt.shiftKey) {
                   if (snap.selectedIds.includes(drawable.id)) {
@@ -552,6 +657,7 @@ const KonvaCanvas = ({ documentId, documentTitle }: { documentId: string, docume
                 }
               }}
               onDragStart={(e) => {
+                if (isReadOnly) return
                 if (
                   snap.selectedIds.length > 1 &&
                   snap.selectedIds.includes(drawable.id)
@@ -604,6 +710,7 @@ const KonvaCanvas = ({ documentId, documentTitle }: { documentId: string, docume
                 }
               }}
               onChange={(newAttrs) => {
+                if (isReadOnly) return
                 if (dragContext) {
                   const { id: draggedId, x: finalX, y: finalY } = newAttrs as any
                   const initialPos = dragContext.initialPositions.get(draggedId)
@@ -637,6 +744,9 @@ const KonvaCanvas = ({ documentId, documentTitle }: { documentId: string, docume
               }}
             />
           ))}
+          {comparison && !playbackDrawables && (
+            <DiffOverlay diff={comparison.changes.drawables} scale={stage.scale} />
+          )}
           {newShape.map((shape) => {
             return (
               <Rect
@@ -654,10 +764,12 @@ const KonvaCanvas = ({ documentId, documentTitle }: { documentId: string, docume
           <Rect ref={selectionRectRef} fill="rgba(0,0,255,0.2)" visible={false} />
           <Transformer
             ref={transformerRef}
+            visible={!isReadOnly}
+            resizeEnabled={!isReadOnly}
             rotateEnabled={false}
             onTransformEnd={() => {
               const nodes = transformerRef.current?.nodes()
-              if (!nodes) return
+              if (!nodes || isReadOnly) return
 
               const updates = nodes.map((node) => {
                 const scaleX = node.scaleX()
@@ -710,6 +822,7 @@ const KonvaCanvas = ({ documentId, documentTitle }: { documentId: string, docume
         resetTransform={resetTransform}
         isCreateRectangleMode={isCreateShapeMode}
         setIsCreateRectangleMode={setIsCreateShapeMode}
+        readOnly={isReadOnly}
       />
     </div>
   )
@@ -2,7 +2,7 @@
 
 import React from 'react'
 import { Rect } from 'react-konva'
-import { Rectangle as RectangleType } from '@/lib/schemas'
+import { Rectangle as RectangleType } from 'collaborative-editor-shared'
 import { DrawableProps } from '@/types'
 
 const Rectangle = ({
@@ -11,6 +11,7 @@ const Rectangle = ({
   onSelect,
   onChange,
   isSpacePressed,
+  readOnly = false,
   onDragStart,
   onDragMove,
 }: DrawableProps<RectangleType>) => {
@@ -25,7 +26,7 @@ const Rectangle = ({
       fill={fill}
       stroke={isSelected ? '#3b82f6' : stroke}
       strokeWidth={isSelected ? 2 : strokeWidth}
-      draggable={!isSpacePressed}
+      draggable={!readOnly && !isSpacePressed}
       onClick={onSelect}
       onTap={onSelect}
       onDragStart={onDragStart}
@@ -0,0 +1,50 @@
+'use client'
+
+import React, { useEffect } from 'react'
+import { useSnapshot } from 'valtio'
+import { docState } from '@/store/document'
+import { AlertTriangle, X } from 'lucide-react'
+
+const DISMISS_AFTER_MS = 6000
+
+/**
+ * Shown when the server reverted one of our changes because it broke the document schema.
+ */
+export function RejectedUpdateNotice() {
+  const snap = useSnapshot(docState)
+  const rejected = snap.rejectedUpdate
+
+  useEffect(() => {
+    if (!rejected) return
+    const timeout = setTimeout(() => {
+      docState.rejectedUpdate = null
+    }, DISMISS_AFTER_MS)
+    return () => clearTimeout(timeout)
+  }, [rejected])
+
+  if (!rejected) return null
+
+  return (
+    <div className="fixed top-20 left-1/2 -translate-x-1/2 z-30 w-96 max-w-[calc(100vw-3rem)] p-3 bg-red-50 border border-red-200 rounded-xl shadow-lg">
+      <div className="flex items-start gap-2">
+        <AlertTriangle className="w-4 h-4 mt-0.5 text-red-600 flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium text-red-800">Your last change was reverted</p>
+          <p className="text-xs text-red-700">It did not match the document schema:</p>
+          <ul className="mt-1 text-xs text-red-700 list-disc list-inside">
+            {rejected.issues.slice(0, 3).map((issue) => (
+              <li key={issue} className="truncate" title={issue}>{issue}</li>
+            ))}
+          </ul>
+        </div>
+        <button
+          onClick={() => (docState.rejectedUpdate = null)}
+          className="p-1 hover:bg-red-100 rounded-lg transition-colors"
+          title="Dismiss"
+        >
+          <X className="w-4 h-4 text-red-600" />
+        </button>
+      </div>
+    </div>
+  )
+}
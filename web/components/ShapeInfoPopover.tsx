@@ -0,0 +1,138 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { useAuth } from '@/hooks/useAuth'
+import { Attribution, DrawableBlame, blameApi } from '@/lib/server-api'
+import { Info, Loader, X } from 'lucide-react'
+
+interface ShapeInfoPopoverProps {
+  documentId: string
+  drawableId: string
+  /** Screen position of the top right corner of the shape */
+  position: { x: number; y: number }
+}
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString)
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
+
+/**
+ * Who created the selected shape and who last changed each of its properties,
+ * from the delta log of the document.
+ */
+export function ShapeInfoPopover({ documentId, drawableId, position }: ShapeInfoPopoverProps) {
+  const { user } = useAuth()
+  const [open, setOpen] = useState(false)
+  const [blame, setBlame] = useState<DrawableBlame | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+
+    const fetchBlame = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+        const result = await blameApi.get(documentId, drawableId)
+        if (!cancelled) setBlame(result.drawables[drawableId] ?? null)
+      } catch (err) {
+        console.error('Error fetching shape info:', err)
+        if (!cancelled) setError('Failed to load shape info')
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+    fetchBlame()
+
+    return () => {
+      cancelled = true
+    }
+  }, [open, documentId, drawableId])
+
+  const describe = (attribution: Attribution) => {
+    const who = attribution.userId
+      ? attribution.userId === user?.id ? 'You' : attribution.userId
+      : attribution.origin === 'server' ? 'Server' : 'Unknown'
+    return `${who} · ${formatDate(attribution.at)}`
+  }
+
+  const style = { left: position.x + 8, top: position.y }
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        style={style}
+        className="absolute z-10 p-1 bg-white/95 hover:bg-gray-100 rounded-lg shadow border border-gray-200/50 transition-colors"
+        title="Shape info"
+      >
+        <Info className="w-3.5 h-3.5 text-gray-700" />
+      </button>
+    )
+  }
+
+  return (
+    <div
+      style={style}
+      className="absolute z-10 w-64 bg-white/95 backdrop-blur-sm rounded-xl shadow-lg border border-gray-200/50"
+    >
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-100">
+        <span className="text-xs font-semibold text-gray-800">Shape info</span>
+        <button
+          onClick={() => setOpen(false)}
+          className="p-0.5 hover:bg-gray-100 rounded transition-colors"
+          title="Close"
+        >
+          <X className="w-3.5 h-3.5 text-gray-500" />
+        </button>
+      </div>
+
+      <div className="px-3 py-2 space-y-2">
+        {loading ? (
+          <div className="flex items-center justify-center py-3">
+            <Loader className="w-4 h-4 text-gray-400 animate-spin" />
+          </div>
+        ) : error ? (
+          <p className="text-xs text-red-700">{error}</p>
+        ) : blame ? (
+          <>
+            <div className="text-xs">
+              <p className="text-gray-500">Created</p>
+              <p className="text-gray-900 truncate">
+                {blame.created ? describe(blame.created) : 'Before the compacted history'}
+              </p>
+            </div>
+            {blame.lastModified && (
+              <div className="text-xs">
+                <p className="text-gray-500">Last modified</p>
+                <p className="text-gray-900 truncate">{describe(blame.lastModified)}</p>
+              </div>
+            )}
+            {Object.keys(blame.properties).length > 0 && (
+              <ul className="pt-1 border-t border-gray-100 space-y-0.5">
+                {Object.entries(blame.properties)
+                  .filter(([key]) => key !== 'id' && key !== 'type')
+                  .map(([key, attribution]) => (
+                    <li key={key} className="flex justify-between gap-2 text-xs">
+                      <span className="text-gray-500">{key}</span>
+                      <span className="text-gray-700 truncate">{describe(attribution)}</span>
+                    </li>
+                  ))}
+              </ul>
+            )}
+          </>
+        ) : (
+          <p className="text-xs text-gray-500">No history for this shape yet.</p>
+        )}
+      </div>
+    </div>
+  )
+}
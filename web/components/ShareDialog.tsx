@@ -0,0 +1,193 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { EntityRole, entityRoles } from 'collaborative-editor-shared'
+import { useAuth } from '@/hooks/useAuth'
+import { EntityMember, membersApi } from '@/lib/server-api'
+import { Loader, Trash2, X } from 'lucide-react'
+
+interface ShareDialogProps {
+  documentId: string
+  onClose: () => void
+}
+
+const roleLabels: Record<EntityRole, string> = {
+  owner: 'Owner',
+  editor: 'Can edit',
+  viewer: 'Can view',
+}
+
+/**
+ * Members of a document. Everybody sees who has access, owners add people by
+ * email, change their role and remove them. The server applies changes to open
+ * connections right away.
+ */
+export function ShareDialog({ documentId, onClose }: ShareDialogProps) {
+  const { user } = useAuth()
+  const [members, setMembers] = useState<EntityMember[]>([])
+  const [role, setRole] = useState<EntityRole | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [email, setEmail] = useState('')
+  const [newRole, setNewRole] = useState<EntityRole>('editor')
+  const [saving, setSaving] = useState(false)
+
+  const isOwner = role === 'owner'
+
+  const fetchMembers = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      const result = await membersApi.list(documentId)
+      setMembers(result.members)
+      setRole(result.role)
+    } catch (err) {
+      console.error('Error fetching members:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load members')
+    } finally {
+      setLoading(false)
+    }
+  }, [documentId])
+
+  useEffect(() => {
+    fetchMembers()
+  }, [fetchMembers])
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      setSaving(true)
+      setError(null)
+      await action()
+      await fetchMembers()
+    } catch (err) {
+      console.error('Error updating members:', err)
+      setError(err instanceof Error ? err.message : 'Failed to update members')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const invite = () => {
+    const trimmed = email.trim()
+    if (!trimmed) return
+    run(async () => {
+      await membersApi.set(documentId, { email: trimmed, role: newRole })
+      setEmail('')
+    })
+  }
+
+  const changeRole = (member: EntityMember, role: EntityRole) =>
+    run(() => membersApi.set(
+      documentId,
+      member.userId ? { userId: member.userId, role } : { email: member.email!, role },
+    ))
+
+  const remove = (member: EntityMember) => run(() => membersApi.remove(documentId, member.id))
+
+  // Rendered into the body, the blurred toolbar would otherwise contain the fixed overlay
+  return createPortal(
+    <div className="fixed inset-0 bg-black/30 backdrop-blur-sm flex items-center justify-center p-4 z-50" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-xl p-6 max-w-md w-full" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">Share</h2>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-lg transition-colors" title="Close">
+            <X className="w-4 h-4 text-gray-600" />
+          </button>
+        </div>
+
+        {isOwner && (
+          <div className="flex gap-2 mb-4">
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              onKeyDown={(e) => {
+                // Keep canvas shortcuts (Backspace, Space, ...) from firing while typing
+                e.stopPropagation()
+                if (e.key === 'Enter') invite()
+              }}
+              placeholder="Email address"
+              className="flex-1 min-w-0 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-1 focus:ring-gray-900 focus:border-gray-900 outline-none transition"
+              autoFocus
+            />
+            <select
+              value={newRole}
+              onChange={(e) => setNewRole(e.target.value as EntityRole)}
+              className="px-2 py-2 text-sm border border-gray-300 rounded-lg bg-white outline-none"
+            >
+              {entityRoles.map((option) => (
+                <option key={option} value={option}>{roleLabels[option]}</option>
+              ))}
+            </select>
+            <button
+              onClick={invite}
+              disabled={saving || !email.trim()}
+              className="px-4 py-2 text-sm font-medium bg-gray-900 hover:bg-gray-800 text-white rounded-lg transition-colors disabled:opacity-50"
+            >
+              Invite
+            </button>
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-xs text-red-800">{error}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader className="w-5 h-5 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-100 max-h-80 overflow-y-auto">
+            {members.map((member) => {
+              const isSelf = member.userId === user?.id
+              return (
+                <li key={member.id} className="flex items-center gap-2 py-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-gray-900 truncate">
+                      {member.email || member.userId}
+                      {isSelf && <span className="text-gray-400"> (you)</span>}
+                    </p>
+                    {!member.userId && <p className="text-xs text-gray-400">Invited, matched when they sign in</p>}
+                  </div>
+                  {isOwner ? (
+                    <>
+                      <select
+                        value={member.role}
+                        onChange={(e) => changeRole(member, e.target.value as EntityRole)}
+                        disabled={saving}
+                        className="px-2 py-1 text-xs border border-gray-300 rounded-lg bg-white outline-none disabled:opacity-50"
+                      >
+                        {entityRoles.map((option) => (
+                          <option key={option} value={option}>{roleLabels[option]}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => remove(member)}
+                        disabled={saving}
+                        className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                        title="Remove member"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </>
+                  ) : (
+                    <span className="text-xs text-gray-500">{roleLabels[member.role]}</span>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+        )}
+
+        {!loading && !isOwner && (
+          <p className="mt-4 text-xs text-gray-500">Only owners can change who has access.</p>
+        )}
+      </div>
+    </div>,
+    document.body,
+  )
+}
@@ -0,0 +1,190 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { useAuth } from '@/hooks/useAuth'
+import { EntityVersion, versionsApi } from '@/lib/server-api'
+import { History, Loader, RotateCcw, Save, X } from 'lucide-react'
+
+interface VersionHistoryPanelProps {
+  documentId: string
+  onClose: () => void
+}
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString)
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
+
+export function VersionHistoryPanel({ documentId, onClose }: VersionHistoryPanelProps) {
+  const { user } = useAuth()
+  const [versions, setVersions] = useState<EntityVersion[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [versionName, setVersionName] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [restoreConfirmId, setRestoreConfirmId] = useState<string | null>(null)
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+
+  const fetchVersions = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      setVersions(await versionsApi.list(documentId))
+    } catch (err) {
+      console.error('Error fetching versions:', err)
+      setError('Failed to load versions')
+    } finally {
+      setLoading(false)
+    }
+  }, [documentId])
+
+  useEffect(() => {
+    fetchVersions()
+  }, [fetchVersions])
+
+  const handleSave = async () => {
+    const name = versionName.trim()
+    if (!name || !user) return
+
+    try {
+      setSaving(true)
+      setError(null)
+      const version = await versionsApi.create(documentId, name)
+      setVersions(prev => [version, ...prev])
+      setVersionName('')
+    } catch (err) {
+      console.error('Error saving version:', err)
+      setError('Failed to save version')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRestore = async (versionId: string) => {
+    try {
+      setRestoringId(versionId)
+      setRestoreConfirmId(null)
+      setError(null)
+      // The server applies the version as a forward update, it reaches us through the provider
+      await versionsApi.restore(documentId, versionId)
+    } catch (err) {
+      console.error('Error restoring version:', err)
+      setError('Failed to restore version')
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  return (
+    <div className="fixed top-20 left-6 z-20 w-80 max-h-[70vh] flex flex-col bg-white/95 backdrop-blur-sm rounded-xl shadow-lg border border-gray-200/50">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+        <div className="flex items-center gap-2 text-sm font-semibold text-gray-800">
+          <History className="w-4 h-4" />
+          Version History
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 hover:bg-gray-100 rounded-lg transition-colors"
+          title="Close"
+        >
+          <X className="w-4 h-4 text-gray-500" />
+        </button>
+      </div>
+
+      {/* Save current state */}
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-gray-100">
+        <input
+          type="text"
+          value={versionName}
+          onChange={(e) => setVersionName(e.target.value)}
+          onKeyDown={(e) => {
+            // Keep canvas shortcuts (Backspace, Space, ...) from firing while typing
+            e.stopPropagation()
+            if (e.key === 'Enter') handleSave()
+          }}
+          placeholder="Name this version..."
+          className="flex-1 min-w-0 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-1 focus:ring-gray-900 focus:border-gray-900 outline-none transition"
+        />
+        <button
+          onClick={handleSave}
+          disabled={saving || !versionName.trim()}
+          className="p-2 bg-gray-900 hover:bg-gray-800 disabled:bg-gray-300 text-white rounded-lg transition-colors"
+          title="Save version"
+        >
+          {saving ? <Loader className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mx-4 mt-3 p-2 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-xs text-red-800">{error}</p>
+        </div>
+      )}
+
+      {/* Versions */}
+      <div className="flex-1 overflow-y-auto">
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader className="w-5 h-5 text-gray-400 animate-spin" />
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="px-4 py-8 text-center text-sm text-gray-500">No saved versions yet.</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {versions.map((version) => (
+              <div key={version.id} className="group px-4 py-3 hover:bg-gray-50">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate" title={version.name}>
+                      {version.name}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {formatDate(version.createdAt)}
+                      {version.authorName && ` · ${version.authorName}`}
+                    </p>
+                  </div>
+                  {restoreConfirmId === version.id ? (
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <button
+                        onClick={() => handleRestore(version.id)}
+                        className="px-2 py-1 text-xs font-medium text-white bg-gray-900 hover:bg-gray-800 rounded-md transition-colors"
+                      >
+                        Restore
+                      </button>
+                      <button
+                        onClick={() => setRestoreConfirmId(null)}
+                        className="px-2 py-1 text-xs font-medium text-gray-700 hover:bg-gray-100 rounded-md transition-colors"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={() => setRestoreConfirmId(version.id)}
+                      disabled={restoringId !== null}
+                      className="opacity-0 group-hover:opacity-100 p-1.5 text-gray-500 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-all flex-shrink-0"
+                      title="Restore this version"
+                    >
+                      {restoringId === version.id ? (
+                        <Loader className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <RotateCcw className="w-4 h-4" />
+                      )}
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
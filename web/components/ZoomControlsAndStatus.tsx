@@ -10,6 +10,8 @@ interface ZoomControlsAndStatusProps {
   resetTransform: (duration?: number, ease?: string) => void
   isCreateRectangleMode: boolean
   setIsCreateRectangleMode: (value: boolean) => void
+  /** Shapes can't be created, e.g. on a read-only connection */
+  readOnly?: boolean
 }
 
 export function ZoomControlsAndStatus({
@@ -19,6 +21,7 @@ export function ZoomControlsAndStatus({
   resetTransform,
   isCreateRectangleMode,
   setIsCreateRectangleMode,
+  readOnly = false,
 }: ZoomControlsAndStatusProps) {
   const [showInfoPopup, setShowInfoPopup] = useState(false)
 
@@ -97,7 +100,8 @@ export function ZoomControlsAndStatus({
         {/* Create Rectangle Mode */}
         <button
           onClick={handleToggleCreateMode}
-          className={`p-1.5 rounded-lg transition-all duration-200 ${
+          disabled={readOnly}
+          className={`p-1.5 rounded-lg transition-all duration-200 disabled:opacity-40 disabled:hover:bg-transparent ${
             isCreateRectangleMode
               ? 'bg-blue-500 hover:bg-blue-600 text-white'
               : 'hover:bg-gray-100 text-gray-700'
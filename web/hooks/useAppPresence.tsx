@@ -6,6 +6,7 @@ import { HocuspocusProvider } from '@hocuspocus/provider'
 import { useAuth } from '@/hooks/useAuth'
 import { generateColorFromString, getShortName, userColors } from '@/lib/userUtils'
 import { HOCUSPOCUS_URL } from '@/lib/Env'
+import { getAccessToken } from '@/lib/supabase'
 import { RealtimeChannel } from '@supabase/supabase-js'
 import { getDeviceInfo } from '@/lib/deviceInfo'
 
@@ -38,7 +39,7 @@ const getGlobalPresenceProvider = () => {
       url: HOCUSPOCUS_URL,
       name: '__app_presence_tracker__', // Special document name for app-level presence
       document: globalYDoc,
-      token: () => 'mvp-anonymous-access',
+      token: getAccessToken,
     })
   }
   
@@ -0,0 +1,173 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import * as Y from 'yjs'
+import { Drawable } from 'collaborative-editor-shared'
+import { EntityDelta, historyApi } from '@/lib/server-api'
+
+// Encoded state is kept every N steps so seeking never replays the whole log
+const CHECKPOINT_INTERVAL = 50
+const STEP_INTERVAL_MS = 250
+
+export const PLAYBACK_SPEEDS = [1, 2, 4, 8] as const
+export type PlaybackSpeed = (typeof PLAYBACK_SPEEDS)[number]
+
+export interface PlaybackDelta extends Omit<EntityDelta, 'update'> {
+  update: Uint8Array
+}
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (char) => char.charCodeAt(0))
+
+/**
+ * Replays the delta log of a document locally. Step 0 is the compacted state,
+ * step k is the state after the k-th delta. Rejected updates and their reverts
+ * cancel out, so they are folded into the step before them instead of being
+ * steps of their own.
+ */
+export function useHistoryPlayback(documentId: string) {
+  const [deltas, setDeltas] = useState<PlaybackDelta[]>([])
+  const [compactedDeltaId, setCompactedDeltaId] = useState<number | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [step, setStep] = useState(0)
+  const [playing, setPlaying] = useState(false)
+  const [speed, setSpeed] = useState<PlaybackSpeed>(1)
+
+  const checkpoints = useRef<Uint8Array[]>([])
+  const cursor = useRef<{ doc: Y.Doc; step: number } | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const load = async () => {
+      try {
+        setLoading(true)
+        setError(null)
+
+        let page = await historyApi.listDeltas(documentId)
+        let base: Uint8Array | null = page.baseState ? fromBase64(page.baseState) : null
+        const loaded: PlaybackDelta[] = []
+
+        while (true) {
+          for (const delta of page.deltas) {
+            const update = fromBase64(delta.update)
+            const previous = loaded[loaded.length - 1]
+            if (delta.origin !== 'rejected') {
+              loaded.push({ ...delta, update })
+            } else if (previous) {
+              // Restoring the step includes the folded deltas
+              loaded[loaded.length - 1] = { ...previous, id: delta.id, update: Y.mergeUpdates([previous.update, update]) }
+            } else {
+              base = base ? Y.mergeUpdates([base, update]) : update
+            }
+          }
+          if (!page.hasMore || page.deltas.length === 0) break
+          page = await historyApi.listDeltas(documentId, page.deltas[page.deltas.length - 1].id)
+        }
+        if (cancelled) return
+
+        // Walk the log once to record the checkpoints
+        const doc = new Y.Doc()
+        if (base) Y.applyUpdate(doc, base)
+        checkpoints.current = [Y.encodeStateAsUpdate(doc)]
+        loaded.forEach((delta, index) => {
+          Y.applyUpdate(doc, delta.update)
+          if ((index + 1) % CHECKPOINT_INTERVAL === 0) checkpoints.current.push(Y.encodeStateAsUpdate(doc))
+        })
+        doc.destroy()
+
+        cursor.current = null
+        setCompactedDeltaId(page.compactedDeltaId)
+        setDeltas(loaded)
+        setStep(loaded.length)
+      } catch (err) {
+        console.error('Error loading history:', err)
+        if (!cancelled) setError('Failed to load history')
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [documentId])
+
+  useEffect(() => {
+    return () => cursor.current?.doc.destroy()
+  }, [])
+
+  const drawables = useMemo<Drawable[]>(() => {
+    if (loading || checkpoints.current.length === 0) return []
+
+    // Move forward from the current frame, or start over from the closest checkpoint
+    let current = cursor.current
+    if (!current || step < current.step || step - current.step > CHECKPOINT_INTERVAL) {
+      current?.doc.destroy()
+      const checkpoint = Math.floor(step / CHECKPOINT_INTERVAL)
+      const doc = new Y.Doc()
+      Y.applyUpdate(doc, checkpoints.current[checkpoint])
+      current = { doc, step: checkpoint * CHECKPOINT_INTERVAL }
+    }
+
+    for (let index = current.step; index < step; index++) {
+      Y.applyUpdate(current.doc, deltas[index].update)
+    }
+    current.step = step
+    cursor.current = current
+
+    return current.doc.getArray<Drawable>('drawables').toJSON()
+  }, [loading, deltas, step])
+
+  useEffect(() => {
+    if (!playing) return
+
+    const interval = setInterval(() => {
+      setStep((current) => {
+        if (current >= deltas.length) {
+          setPlaying(false)
+          return current
+        }
+        return current + 1
+      })
+    }, STEP_INTERVAL_MS / speed)
+
+    return () => clearInterval(interval)
+  }, [playing, speed, deltas.length])
+
+  const play = useCallback(() => {
+    // Start over when playback is at the end
+    setStep((current) => (current >= deltas.length ? 0 : current))
+    setPlaying(true)
+  }, [deltas.length])
+
+  const pause = useCallback(() => setPlaying(false), [])
+
+  const seek = useCallback((next: number) => {
+    setPlaying(false)
+    setStep(Math.max(0, Math.min(next, deltas.length)))
+  }, [deltas.length])
+
+  const restore = useCallback(() => {
+    // Step 0 is everything up to the compaction watermark
+    const deltaId = step > 0 ? deltas[step - 1].id : compactedDeltaId ?? 0
+    return historyApi.restore(documentId, deltaId)
+  }, [documentId, deltas, step, compactedDeltaId])
+
+  return {
+    loading,
+    error,
+    steps: deltas.length,
+    step,
+    currentDelta: step > 0 ? deltas[step - 1] : null,
+    drawables,
+    playing,
+    speed,
+    setSpeed,
+    play,
+    pause,
+    seek,
+    restore,
+  }
+}
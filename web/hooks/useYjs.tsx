@@ -5,7 +5,7 @@ import * as Y from 'yjs'
 import { setupProviders } from '../lib/yjs-providers'
 import { syncYjsToValtio, docState } from '../store/document'
 import { getDeviceInfo } from '@/lib/deviceInfo'
-import { EntityType } from '@/lib/schemas'
+import { EntityType } from 'collaborative-editor-shared'
 
 const YjsContext = createContext<Y.Doc | null>(null)
 
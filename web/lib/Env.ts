@@ -9,6 +9,8 @@ export const SUPABASE_ANON_KEY = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 
 // WebSocket servers
 export const HOCUSPOCUS_URL = process.env.NEXT_PUBLIC_HOCUSPOCUS_URL || 'ws://localhost:1234'
+// HTTP API served by the Hocuspocus server on the same port (versions, history, ...)
+export const HOCUSPOCUS_HTTP_URL = process.env.NEXT_PUBLIC_HOCUSPOCUS_HTTP_URL || HOCUSPOCUS_URL.replace(/^ws/, 'http')
 export const Y_WEBRTC_SIGNALING_URL = process.env.NEXT_PUBLIC_Y_WEBRTC_SIGNALING_URL  // Y-WebRTC signaling for P2P
 
 // WebRTC configuration
@@ -0,0 +1,279 @@
+import type { EntityRole } from 'collaborative-editor-shared'
+import { HOCUSPOCUS_HTTP_URL } from './Env'
+import { getAccessToken } from './supabase'
+
+/**
+ * Client for the HTTP API served by the Hocuspocus server
+ */
+
+export interface EntityVersion {
+  id: string
+  entityId: string
+  name: string
+  authorId: string | null
+  authorName: string | null
+  createdAt: string
+}
+
+async function serverRequest<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`${HOCUSPOCUS_HTTP_URL}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${await getAccessToken()}`,
+      ...init.headers,
+    },
+  })
+
+  const body = await response.json().catch(() => null)
+  if (!response.ok) {
+    throw new Error(body?.error || `Request failed with status ${response.status}`)
+  }
+  return body as T
+}
+
+export interface TrashSummary {
+  id: string
+  type: string
+  deletedAt: string | null
+  purgedAt: string | null
+}
+
+export interface EntityFork {
+  id: string
+  type: string
+  title: string
+  forkedFrom: string
+}
+
+export interface EntityRecord {
+  id: string
+  type: string
+  metadata: Record<string, any>
+  createdAt: string
+  updatedAt: string
+  content: Record<string, any>
+}
+
+export const entitiesApi = {
+  /** Creates an entity on the server, which notifies webhooks of it */
+  create(entity: { type?: string; title?: string; content?: Record<string, any> }) {
+    return serverRequest<EntityRecord>('/entities', {
+      method: 'POST',
+      body: JSON.stringify(entity),
+    })
+  },
+
+  trash(entityId: string) {
+    return serverRequest<TrashSummary>(`/entities/${entityId}/trash`, { method: 'POST' })
+  },
+
+  restore(entityId: string) {
+    return serverRequest<TrashSummary>(`/entities/${entityId}/trash/restore`, { method: 'POST' })
+  },
+
+  /** Permanently deletes an entity that is in the trash */
+  purge(entityId: string) {
+    return serverRequest<TrashSummary>(`/entities/${entityId}`, { method: 'DELETE' })
+  },
+
+  /** Copies the current content into a new entity, `newIds` gives the copied drawables new ids */
+  fork(entityId: string, options: { title?: string; newIds?: boolean } = {}) {
+    return serverRequest<EntityFork>(`/entities/${entityId}/fork`, {
+      method: 'POST',
+      body: JSON.stringify(options),
+    })
+  },
+}
+
+export const versionsApi = {
+  list(entityId: string) {
+    return serverRequest<EntityVersion[]>(`/entities/${entityId}/versions`)
+  },
+
+  create(entityId: string, name: string) {
+    return serverRequest<EntityVersion>(`/entities/${entityId}/versions`, {
+      method: 'POST',
+      body: JSON.stringify({ name }),
+    })
+  },
+
+  restore(entityId: string, versionId: string) {
+    return serverRequest<EntityVersion>(`/entities/${entityId}/versions/${versionId}/restore`, {
+      method: 'POST',
+    })
+  },
+}
+
+export interface EntityDelta {
+  id: number
+  /** Per-entity sequence number, null for deltas stored before it existed */
+  seq: number | null
+  /** Authenticated user that made the change, null for server changes */
+  userId: string | null
+  /** Yjs client ids whose structs the update contains or deletes */
+  clientIds: number[]
+  /** `rejected` for an update the server reverted and for its revert */
+  origin: 'websocket' | 'server' | 'http' | 'rejected' | null
+  createdAt: string
+  /** Base64 encoded Yjs update */
+  update: string
+}
+
+export interface EntityDeltaPage {
+  entityId: string
+  type: string
+  compactedUntil: string | null
+  compactedDeltaId: number | null
+  /** Base64 encoded compacted state the deltas apply to, only on the first page */
+  baseState?: string | null
+  deltas: EntityDelta[]
+  hasMore: boolean
+}
+
+export const historyApi = {
+  listDeltas(entityId: string, afterId?: number) {
+    const query = afterId !== undefined ? `?afterId=${afterId}` : ''
+    return serverRequest<EntityDeltaPage>(`/entities/${entityId}/history/deltas${query}`)
+  },
+
+  restore(entityId: string, deltaId: number) {
+    return serverRequest<{ deltasApplied: number }>(`/entities/${entityId}/history/restore`, {
+      method: 'POST',
+      body: JSON.stringify({ deltaId }),
+    })
+  },
+}
+
+export interface EntityBranch {
+  id: string
+  type: string
+  parentId: string
+  name: string
+}
+
+export interface ItemChange {
+  id: string
+  /** Properties whose value differs */
+  keys: string[]
+  before: any
+  after: any
+}
+
+/** Change of one top-level field; arrays of items with an id are compared item by item */
+export type FieldDiff =
+  | { kind: 'items'; added: any[]; removed: any[]; changed: ItemChange[] }
+  | { kind: 'value'; before: any; after: any }
+
+export interface BranchDiff {
+  branchId: string
+  parentId: string
+  name: string | null
+  /** What merging would change in the parent, by field. Empty when there is nothing to merge */
+  changes: Record<string, FieldDiff>
+  /** The parent has changes the branch doesn't have */
+  parentAhead: boolean
+}
+
+export const branchesApi = {
+  create(entityId: string, name: string) {
+    return serverRequest<EntityBranch>(`/entities/${entityId}/branches`, {
+      method: 'POST',
+      body: JSON.stringify({ name }),
+    })
+  },
+
+  diff(branchId: string) {
+    return serverRequest<BranchDiff>(`/entities/${branchId}/branch/diff`)
+  },
+
+  merge(branchId: string) {
+    return serverRequest<{ branchId: string; parentId: string; merged: boolean }>(`/entities/${branchId}/branch/merge`, {
+      method: 'POST',
+    })
+  },
+}
+
+export interface SnapshotDiff {
+  entityId: string
+  from: { ref: string; content: Record<string, any> }
+  to: { ref: string; content: Record<string, any> }
+  changes: Record<string, FieldDiff>
+}
+
+/**
+ * A snapshot ref is `current`, `version:<id>`, `at:<ISO time>` or `branch:<id>`
+ */
+export const diffsApi = {
+  compare(entityId: string, from: string, to = 'current') {
+    const query = new URLSearchParams({ from, to })
+    return serverRequest<SnapshotDiff>(`/entities/${entityId}/diff?${query}`)
+  },
+}
+
+export interface Attribution {
+  /** Null for server changes and deltas recorded before users were tracked */
+  userId: string | null
+  origin: 'websocket' | 'server' | 'http' | null
+  deltaId: number
+  at: string
+}
+
+export interface DrawableBlame {
+  /** Null when the drawable predates the compacted history */
+  created: Attribution | null
+  /** Last change of each property */
+  properties: Record<string, Attribution>
+  lastModified: Attribution | null
+}
+
+export interface EntityBlame {
+  entityId: string
+  compactedUntil: string | null
+  drawables: Record<string, DrawableBlame>
+}
+
+export const blameApi = {
+  get(entityId: string, drawableId?: string) {
+    const query = drawableId ? `?drawableId=${encodeURIComponent(drawableId)}` : ''
+    return serverRequest<EntityBlame>(`/entities/${entityId}/blame${query}`)
+  },
+}
+
+export interface EntityMember {
+  id: string
+  entityId: string
+  /** Null for members invited by email who haven't been added by id */
+  userId: string | null
+  email: string | null
+  role: EntityRole
+  createdAt: string
+}
+
+export interface EntityMembers {
+  entityId: string
+  /** Role of the current user */
+  role: EntityRole | null
+  members: EntityMember[]
+}
+
+export const membersApi = {
+  list(entityId: string) {
+    return serverRequest<EntityMembers>(`/entities/${entityId}/members`)
+  },
+
+  /** Adds a member by email, or changes the role of the member with that email */
+  set(entityId: string, member: { email: string; role: EntityRole } | { userId: string; role: EntityRole }) {
+    return serverRequest<EntityMember>(`/entities/${entityId}/members`, {
+      method: 'POST',
+      body: JSON.stringify(member),
+    })
+  },
+
+  remove(entityId: string, memberId: string) {
+    return serverRequest<{ entityId: string; memberId: string; removed: boolean }>(
+      `/entities/${entityId}/members/${memberId}`,
+      { method: 'DELETE' }
+    )
+  },
+}
@@ -3,5 +3,12 @@ import { SUPABASE_URL, SUPABASE_ANON_KEY } from './Env'
 
 export const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY)
 
-// No authentication needed for MVP
+/**
+ * Access token of the current session, sent to the Hocuspocus server on every
+ * (re)connection. getSession refreshes the session first when the token has expired.
+ */
+export async function getAccessToken() {
+  const { data: { session } } = await supabase.auth.getSession()
+  return session?.access_token ?? ''
+}
 
@@ -4,7 +4,14 @@ import { IndexeddbPersistence } from 'y-indexeddb'
 import { WebrtcProvider } from 'y-webrtc'
 import { docState } from '@/store/document'
 import { HOCUSPOCUS_URL, WEBRTC_PASSWORD, Y_WEBRTC_SIGNALING_URL } from './Env'
-import { EntityType, entityConfigs } from './schemas'
+import { getAccessToken } from './supabase'
+import {
+  EntityDeletedCloseEvent,
+  EntityRole,
+  EntityType,
+  entityConfigs,
+  parseServerMessage,
+} from 'collaborative-editor-shared'
 
 export function setupProviders(
   entityType: EntityType,
@@ -17,6 +24,12 @@ export function setupProviders(
     roomName = `${entityId}/${WEBRTC_PASSWORD}`
   }
 
+  docState.deleted = null
+  // Read-only until the server sends our role, see handleAccess
+  docState.role = null
+  docState.readOnly = true
+  docState.accessDenied = false
+
   // Initialize the Yjs document structure based on the entity type
   const config = entityConfigs[entityType]
   if (config && config.yjsBuilder) {
@@ -40,11 +53,16 @@ export function setupProviders(
       entityType: entityType,
     },
     
-    // MVP: Provide a dummy token to satisfy HocuspocusProvider v2.15.3 client-side validation
-    // The server's onAuthenticate hook accepts all connections without checking the token
-    // Any non-empty string works - using a function ensures it's available on reconnection
-    token: () => 'mvp-anonymous-access',
+    // Supabase access token, verified by the server's onAuthenticate hook
+    // A function so every reconnection sends the current (refreshed) token
+    token: getAccessToken,
     
+    // The server decides per connection, viewers get a read-only one. Writes are
+    // only enabled by the role the server sends after connecting
+    onAuthenticated: () => {
+      if (hocuspocusProvider.authorizedScope === 'readonly') docState.readOnly = true
+    },
+
     onSynced: ({ state }) => {
       console.log('✅ Hocuspocus synced:', state)
     },
@@ -57,15 +75,34 @@ export function setupProviders(
     onAuthenticationFailed: ({ reason }) => {
       console.error('❌ Authentication failed:', reason)
       console.error('Error details:', JSON.stringify(reason, null, 2))
-      console.error('This usually indicates a server-side authentication rejection')
+      console.error('The access token is missing, invalid or expired, or we are not a member')
+      // Also an expired session, so the local copy and its unsynced changes are kept
+      handleAccessDenied(false)
     },
     
     onClose: ({ event }) => {
       console.warn('⚠️ Connection closed:', event.code, event.reason)
+      // The document was deleted while we were offline
+      if (event.code === EntityDeletedCloseEvent.code) {
+        handleDeleted(false)
+      }
     },
     
     onOpen: () => {
       console.log('✅ WebSocket connection opened successfully')
+    },
+
+    onStateless: ({ payload }) => {
+      const message = parseServerMessage(payload)
+      if (message?.type === 'update-rejected') {
+        // The server has already reverted the change for everybody
+        console.warn('⚠️ Update rejected by the server:', message.issues)
+        docState.rejectedUpdate = { issues: message.issues, at: Date.now() }
+      } else if (message?.type === 'entity-deleted') {
+        handleDeleted(message.purged)
+      } else if (message?.type === 'access') {
+        handleAccess(message.role)
+      }
     }
   })
   
@@ -134,6 +171,9 @@ export function setupProviders(
   }
   
   const webrtcProvider = new WebrtcProvider(roomName, ydoc, webrtcOptions)
+  // Peers apply each other's updates without the server's access checks, so
+  // only join the room once the server confirmed that we may edit
+  webrtcProvider.disconnect()
   
   if (Y_WEBRTC_SIGNALING_URL) {
     console.log('📡 WebRTC provider configured with signaling server:', Y_WEBRTC_SIGNALING_URL)
@@ -286,16 +326,72 @@ export function setupProviders(
   // Update peer count when awareness changes
   hocuspocusProvider.awareness.on('change', updatePeerCount)
   
+  let destroyed = false
+  const destroy = () => {
+    if (destroyed) return
+    destroyed = true
+    indexeddbProvider.destroy()
+    hocuspocusProvider.destroy()
+    webrtcProvider.destroy()
+  }
+
+  // Stop syncing a deleted document and drop the local copy, otherwise IndexedDB
+  // or a peer would push the stale content back on the next connection
+  function handleDeleted(purged: boolean) {
+    if (docState.deleted) return
+    console.warn(`🗑️ Document was ${purged ? 'permanently deleted' : 'moved to the trash'}`)
+    docState.deleted = { purged }
+
+    destroyed = true
+    hocuspocusProvider.destroy()
+    webrtcProvider.destroy()
+    indexeddbProvider.clearData().catch(error => {
+      console.error('❌ Failed to clear the local copy:', error)
+    })
+  }
+
+  function handleAccess(role: EntityRole | null) {
+    if (!role) {
+      handleAccessDenied(true)
+      return
+    }
+
+    console.log(`🔑 Access to the document: ${role}`)
+    docState.role = role
+    docState.readOnly = role === 'viewer'
+    if (role === 'viewer') {
+      webrtcProvider.disconnect()
+    } else if (!destroyed) {
+      webrtcProvider.connect()
+    }
+  }
+
+  // Stop syncing when the server refuses us. When our membership was removed the
+  // local copy is dropped as well, we are no longer allowed to read it
+  function handleAccessDenied(revoked: boolean) {
+    if (docState.accessDenied) return
+    console.warn('🔒 Access to the document was denied')
+    docState.role = null
+    docState.readOnly = true
+    docState.accessDenied = true
+
+    destroyed = true
+    hocuspocusProvider.destroy()
+    webrtcProvider.destroy()
+    if (revoked) {
+      indexeddbProvider.clearData().catch(error => {
+        console.error('❌ Failed to clear the local copy:', error)
+      })
+    } else {
+      indexeddbProvider.destroy()
+    }
+  }
+
   return {
     indexeddbProvider,
     hocuspocusProvider,
     webrtcProvider,
-    
-    destroy: () => {
-      indexeddbProvider.destroy()
-      hocuspocusProvider.destroy()
-      webrtcProvider.destroy()
-    }
+    destroy,
   }
 }
 
@@ -1,7 +1,14 @@
+const path = require('path')
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
   output: 'standalone', // Required for Docker deployment
+
+  // Trace from the workspace root so the shared package ends up in the standalone output
+  experimental: {
+    outputFileTracingRoot: path.join(__dirname, '..'),
+  },
   
   // Skip type checking during build for MVP speed
   typescript: {
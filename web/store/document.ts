@@ -4,11 +4,12 @@ import { DocumentState } from '../types'
 import {
   EntityType,
   entityConfigs,
+  readEntityContent,
   Drawable,
   drawableSchema,
   Rectangle,
   rectangleSchema,
-} from '@/lib/schemas'
+} from 'collaborative-editor-shared'
 import { z } from 'zod'
 
 export const docState = proxy<DocumentState>({
@@ -21,6 +22,12 @@ export const docState = proxy<DocumentState>({
   status: 'disconnected',
   peers: 0,
   selectedIds: [],
+  rejectedUpdate: null,
+  deleted: null,
+  role: null,
+  // Until the server confirmed that we may edit
+  readOnly: true,
+  accessDenied: false,
   connection: {
     indexeddb: 'syncing',
     websocket: 'disconnected',
@@ -41,16 +48,7 @@ export function syncYjsToValtio(ydoc: Y.Doc, entityType: EntityType) {
   const unsubs: (() => void)[] = []
 
   const observer = () => {
-    const newEntity: { [key: string]: any } = {}
-    for (const key of topLevelKeys) {
-      const ytype = ydoc.get(key)
-      if (ytype instanceof Y.Text) {
-        newEntity[key] = ytype.toString()
-      } else if (ytype instanceof Y.Array || ytype instanceof Y.Map) {
-        newEntity[key] = ytype.toJSON()
-      }
-    }
-    docState.entity = newEntity
+    docState.entity = readEntityContent(ydoc, entityType)
   }
 
   topLevelKeys.forEach((key) => {
@@ -71,11 +69,32 @@ export function syncYjsToValtio(ydoc: Y.Doc, entityType: EntityType) {
   }
 }
 
+// A read-only connection doesn't sync our updates, a local change would only
+// diverge from the server's state (and linger in IndexedDB)
+function canWrite(action: string) {
+  if (!docState.readOnly) return true
+  console.warn(`✋ ${action} refused, the document is read-only`)
+  return false
+}
+
 // Valtio actions (update Yjs document)
 // TODO: These actions are still specific to the 'document' entity.
 // In the future, we may want a more generic action system.
 export const actions = {
+  // The server projects the name to metadata.title for the document list
+  setName(ydoc: Y.Doc, name: string) {
+    if (!canWrite('setName')) return
+    const yName = ydoc.getText('name')
+    if (yName.toString() === name) return
+
+    ydoc.transact(() => {
+      yName.delete(0, yName.length)
+      yName.insert(0, name)
+    })
+  },
+
   addDrawable(ydoc: Y.Doc, drawable: Drawable) {
+    if (!canWrite('addDrawable')) return
     const validation = drawableSchema.safeParse(drawable)
     if (!validation.success) {
       console.error('Invalid drawable data:', validation.error)
@@ -91,6 +110,7 @@ export const actions = {
   },
 
   updateDrawable(ydoc: Y.Doc, id: string, updates: Partial<Drawable>) {
+    if (!canWrite('updateDrawable')) return
     ydoc.transact(() => {
       const yDrawables = ydoc.getArray<Y.Map<any>>('drawables')
       const index = yDrawables.toArray().findIndex((d) => d.get('id') === id)
@@ -105,6 +125,7 @@ export const actions = {
   },
 
   deleteDrawable(ydoc: Y.Doc, id: string) {
+    if (!canWrite('deleteDrawable')) return
     const yDrawables = ydoc.getArray<Y.Map<any>>('drawables')
     const index = yDrawables.toArray().findIndex((d) => d.get('id') === id)
 
@@ -114,6 +135,7 @@ export const actions = {
   },
 
   deleteDrawables(ydoc: Y.Doc, ids: string[]) {
+    if (!canWrite('deleteDrawables')) return
     ydoc.transact(() => {
       const yDrawables = ydoc.getArray<Y.Map<any>>('drawables')
       const indicesToDelete = ids
@@ -142,6 +164,7 @@ export const actions = {
     ydoc: Y.Doc,
     updates: (Partial<Drawable> & { id: string })[],
   ) {
+    if (!canWrite('updateDrawables')) return
     ydoc.transact(() => {
       const yDrawables = ydoc.getArray<Y.Map<any>>('drawables')
       updates.forEach((update) => {
@@ -1,5 +1,5 @@
 import Konva from 'konva'
-import { Drawable, Comment } from './lib/schemas'
+import { Drawable, Comment, EntityRole } from 'collaborative-editor-shared'
 
 export interface Rectangle {
   id: string
@@ -12,7 +12,7 @@ export interface Rectangle {
   strokeWidth?: number
 }
 
-export { Drawable, Comment }
+export type { Drawable, Comment }
 
 export interface ViewBox {
   x: number
@@ -27,6 +27,8 @@ export interface DrawableProps<T extends Drawable> {
   onSelect: (e: Konva.KonvaEventObject<MouseEvent>) => void
   onChange: (newAttrs: Partial<T>) => void
   isSpacePressed: boolean
+  /** Shapes can't be dragged, e.g. while showing a past state */
+  readOnly?: boolean
   onDragStart?: (e: Konva.KonvaEventObject<DragEvent>) => void
   onDragMove?: (e: Konva.KonvaEventObject<DragEvent>) => void
 }
@@ -42,6 +44,19 @@ export interface DocumentState {
   status: 'disconnected' | 'connecting' | 'connected'
   peers: number
   selectedIds: string[]
+  /** Set when the server reverted one of our updates because it failed validation */
+  rejectedUpdate: { issues: string[]; at: number } | null
+  /** Set when the server reported the document as deleted; the providers are closed by then */
+  deleted: { purged: boolean } | null
+  /** Role of the user in the document, null until the server confirmed it */
+  role: EntityRole | null
+  /**
+   * Nothing may be written: the role isn't confirmed yet, or the connection is read-only
+   * (viewers) and the server drops our updates
+   */
+  readOnly: boolean
+  /** Set when the server refused or revoked our access; the providers are closed by then */
+  accessDenied: boolean
   connection: {
     indexeddb: 'syncing' | 'synced'
     websocket: 'disconnected' | 'connecting' | 'connected'